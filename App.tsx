@@ -4,43 +4,56 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
     Camera, Sparkles, Loader2, Play, Film, ArrowRight, Upload, Globe, 
     CheckCircle2, AlertCircle, Map as MapIcon, Trash2, Sliders, Layers, 
     Zap, Target, Flag, RefreshCw, Star, Mic, Cloud, Wand2, Image as ImageIcon, Video as VideoIcon, X,
-    ChevronRight, Library, Plus, Scissors
+    ChevronRight, Library, Plus, Scissors, ScanText, CalendarDays, LayoutGrid, Download, PenLine, Columns3
 } from 'lucide-react';
 import { 
-    AppState, RecallStory, MediaItem, LocationPoint, CutPack, StoryArc, 
-    PaceLevel, FocusTarget, EndingStyle, CutPackCategory, ImageAspectRatio, ImageSize, VideoAspectRatio 
+    AppState, RecallStory, StoryBeat, StoryVariant, CastMember, MusicTrack, PackScore, MediaItem, MediaCuration, LocationPoint, CutPack, StoryArc, 
+    PaceLevel, FocusTarget, FOCUS_TARGETS, EndingStyle, CutPackCategory, ImageAspectRatio, ImageSize, VideoAspectRatio 
 } from './types';
-import { analyzeTripAndGenerateStory, generateBeatAudio, extractItinerary, transcribeAudio, generateImage, generateVideo } from './services/geminiService';
+import { analyzeTripAndGenerateStory, generateBeatAudio, extractItinerary, transcribeAudio, generateImage, generateVideo, captionMedia, regenerateBeat, translateStory, generateStoryVariants } from './services/geminiService';
+import { ModelOutputError } from './services/modelJson';
+import { DEFAULT_LANGUAGE, NARRATION_LANGUAGES } from './services/languages';
+import { deriveItineraryFromMedia } from './services/mediaMetadata';
+import { MediaAlbum, MediaSourceProvider, createUploadProvider, createLocalFolderProvider, fixtureProvider } from './services/mediaSources';
+import { googlePhotosProvider } from './services/googlePhotosSource';
+import { ImportJob, albumJobs, collectDroppedFiles, createMediaItem } from './services/mediaImport';
+import { deleteMediaBlobs, loadVault, saveVault } from './services/mediaStore';
+import { ImportProgress, runImportQueue } from './services/importQueue';
+import { selectStoryMedia } from './services/mediaSelection';
+import { addWithStacks, normalizeStacks, setStackHero, removeStackDuplicates } from './services/mediaStacks';
+import { moveToGroup, restoreCaptureTime } from './services/mediaTimeline';
+import { STORY_ARCS, arcSlots } from './services/storyArcs';
+import { beatsNeedingAudio, setBeatLocation } from './services/storyEditing';
+import { BUILT_IN_CUT_PACKS, NARRATOR_SPEAKER, PACE_LEVELS, exportCutPacks, loadCustomCutPacks, loadNarratorVoices, loadPackScores, mergeCutPacks, parseCutPackFile, saveCustomCutPacks, saveNarratorVoices, savePackScores } from './services/cutPacks';
+import { MUSIC_LIBRARY, addUploadedScore, deleteUploadedScore, loadUploadedScores, saveUploadedScores } from './services/musicLibrary';
 import ScrollyStory from './components/ScrollyStory';
+import VariantCompare from './components/VariantCompare';
+import FragmentSelection from './components/FragmentSelection';
+import VaultGrid from './components/VaultGrid';
+import VaultTimeline from './components/VaultTimeline';
+import AlbumPicker from './components/AlbumPicker';
+import CutPackEditor from './components/CutPackEditor';
+import StoryEditor from './components/StoryEditor';
+import VoiceCasting from './components/VoiceCasting';
+import ScorePicker from './components/ScorePicker';
+import ImportQueuePanel from './components/ImportQueuePanel';
 
 // --- Constants ---
-const CUT_PACKS: CutPack[] = [
-    { id: 'neon-noir', category: 'Moody', name: 'Neon Noir', promise: 'Gritty & Cynical', description: 'Rain-slicked streets, high contrast, and whispered secrets.' },
-    { id: 'postcard-pop', category: 'Bright', name: 'Postcard Pop', promise: 'Vibrant Optimism', description: 'Saturated colors and deadpan joy, inspired by the 1960s.' },
-    { id: 'a24-drift', category: 'Artsy', name: 'A24 Drift', promise: 'Subversive & Detail-rich', description: 'Slow pans on strange details. Atmospheric and unconventional.' },
-    { id: 'mythic-odyssey', category: 'Epic', name: 'Mythic Odyssey', promise: 'Heroic & Grand', description: 'A legendary trial of spirit against vast horizons.' },
-];
-
-const STORY_ARCS: StoryArc[] = [
-    { id: 'journey', name: 'The Journey', structure: 'Linear Chronological', bestFor: 'Road trips and long cruises' },
-    { id: 'love-letter', name: 'The Love Letter', structure: 'Emotional Crescendo', bestFor: 'Couples and quiet getaways' },
-];
-
-const PACE_OPTIONS: PaceLevel[] = ['Slow Burn', 'Balanced', 'Hypercut'];
-const FOCUS_OPTIONS: FocusTarget[] = ['People', 'Places', 'Food', 'Motion', 'Details', 'Vistas'];
 const ENDING_OPTIONS: EndingStyle[] = ['Mic Drop', 'Soft Landing', 'Cliffhanger'];
 
-// Mock Google Photos Albums
-const MOCK_ALBUMS = [
-    { id: 'alb-1', title: 'Summer in Positano', count: 124, cover: 'https://images.unsplash.com/photo-1533105079780-92b9be482077' },
-    { id: 'alb-2', title: 'London Nocturnes', count: 45, cover: 'https://images.unsplash.com/photo-1513635269975-59663e0ac1ad' },
-    { id: 'alb-3', title: 'Nordic Light', count: 89, cover: 'https://images.unsplash.com/photo-1520250497591-112f2f40a3f4' },
-];
+// Import sources offered in the library picker
+const MEDIA_PROVIDERS: MediaSourceProvider[] = [googlePhotosProvider, createLocalFolderProvider(), fixtureProvider];
+
+// Takes beyond the selected direction; each is a full generation.
+const MAX_ALTERNATIVE_CUTS = 3;
+
+// How a story is voiced: its language, its pace and its cast.
+type Voicing = Pick<RecallStory, 'language' | 'pace' | 'cast'>;
 
 function App() {
   const [appState, setAppState] = useState<AppState>(AppState.IMPORTING);
@@ -48,6 +61,12 @@ function App() {
   const [media, setMedia] = useState<MediaItem[]>([]);
   const [itinerary, setItinerary] = useState<LocationPoint[]>([]);
   const [story, setStory] = useState<RecallStory | null>(null);
+  const [isEditingStory, setIsEditingStory] = useState(false);
+  const [isBackgroundGenerating, setIsBackgroundGenerating] = useState(false);
+  const [variants, setVariants] = useState<StoryVariant[] | null>(null);
+  // Extra takes to compare against the selected Cut Pack and arc.
+  const [alternativeCuts, setAlternativeCuts] = useState<{ cutPackId: string; arcId: string }[]>([]);
+  const compareRunRef = useRef(0);
   const [loadingMsg, setLoadingMsg] = useState('');
   const [naturalItinerary, setNaturalItinerary] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -62,13 +81,129 @@ function App() {
   const [videoAspectRatio, setVideoAspectRatio] = useState<VideoAspectRatio>('16:9');
 
   // Narrative Levers
-  const [selectedCutPack, setSelectedCutPack] = useState<CutPack>(CUT_PACKS[0]);
+  const [selectedCutPack, setSelectedCutPack] = useState<CutPack>(BUILT_IN_CUT_PACKS[0]);
   const [selectedArc, setSelectedArc] = useState<StoryArc>(STORY_ARCS[0]);
-  const [pace, setPace] = useState<PaceLevel>('Balanced');
+  const [pace, setPace] = useState<PaceLevel>(BUILT_IN_CUT_PACKS[0].pace);
   const [focus, setFocus] = useState<FocusTarget[]>(['Vistas', 'Details']);
   const [ending, setEnding] = useState<EndingStyle>('Soft Landing');
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  // Characters whose quoted lines get their own voice.
+  const [cast, setCast] = useState<CastMember[]>([]);
+
+  // Custom Cut Packs (saved locally, shareable as JSON)
+  const [customPacks, setCustomPacks] = useState<CutPack[]>(loadCustomCutPacks);
+  const [editingPack, setEditingPack] = useState<CutPack | 'new' | null>(null);
+  const packFileInputRef = useRef<HTMLInputElement>(null);
+  const cutPacks = [...BUILT_IN_CUT_PACKS, ...customPacks];
+  // Re-voicing and rewrites follow the pack the story was cut with, not the one selected now.
+  const storyPack = cutPacks.find(p => p.id === story?.cutPackId) ?? selectedCutPack;
+  // Narrators recast in the casting step, by pack id.
+  const [narratorVoices, setNarratorVoices] = useState<Record<string, string>>(loadNarratorVoices);
+  const narratorFor = (pack: CutPack) => narratorVoices[pack.id] ?? pack.voice;
+  // Unnamed characters (or ones named like the narrator) are left out; the first of two with the same name is kept.
+  const castForStory = cast
+    .map(c => ({ ...c, name: c.name.trim() }))
+    .filter((c, i, all) => c.name && c.name.toLowerCase() !== NARRATOR_SPEAKER.toLowerCase()
+        && all.findIndex(o => o.name.toLowerCase() === c.name.toLowerCase()) === i);
+
+  useEffect(() => { saveCustomCutPacks(customPacks); }, [customPacks]);
+  useEffect(() => { saveNarratorVoices(narratorVoices); }, [narratorVoices]);
+
+  // Music beds: picked per pack from the library or the user's uploads.
+  const [packScores, setPackScores] = useState<Record<string, PackScore>>(loadPackScores);
+  const [uploadedScores, setUploadedScores] = useState<MusicTrack[]>(loadUploadedScores);
+  const scoreFor = (pack: CutPack): PackScore => packScores[pack.id] ?? { trackId: pack.score ?? null, mode: 'loop' };
+
+  useEffect(() => { savePackScores(packScores); }, [packScores]);
+  useEffect(() => { saveUploadedScores(uploadedScores); }, [uploadedScores]);
+
+  const handleUploadScore = async (file: File) => {
+    const track = await addUploadedScore(file);
+    setUploadedScores(prev => [...prev, track]);
+    return track;
+  };
+
+  const handleDeleteScore = (id: string) => {
+    setUploadedScores(prev => prev.filter(t => t.id !== id));
+    setPackScores(prev => Object.fromEntries(Object.entries(prev).map(([packId, s]: [string, PackScore]) => [packId, s.trackId === id ? { ...s, trackId: null } : s])));
+    deleteUploadedScore(id).catch(e => console.error(e));
+  };
+
+  const selectCutPack = (pack: CutPack) => {
+    setSelectedCutPack(pack);
+    setPace(pack.pace);
+  };
+
+  const saveCutPack = (pack: CutPack) => {
+    setCustomPacks(prev => mergeCutPacks(prev, [pack]));
+    // The voice set in the editor replaces any recast narrator.
+    setNarratorVoices(({ [pack.id]: _, ...rest }) => rest);
+    selectCutPack(pack);
+  };
+
+  const deleteCutPack = (id: string) => {
+    setCustomPacks(prev => prev.filter(p => p.id !== id));
+    if (selectedCutPack.id === id) selectCutPack(BUILT_IN_CUT_PACKS[0]);
+  };
+
+  const handleExportPacks = () => {
+    const url = URL.createObjectURL(exportCutPacks(customPacks));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'reelchemy-cut-packs.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportPacks = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+        const imported = parseCutPackFile(await file.text());
+        setCustomPacks(prev => mergeCutPacks(prev, imported));
+    } catch (e) {
+        console.error(e);
+        alert(e instanceof Error ? e.message : "Cut Packs could not be imported.");
+    }
+  };
+
+  // Representative subset of the vault that will shape the story
+  const selection = useMemo(() => selectStoryMedia(media, { focus }), [media, focus]);
+  const curateMedia = (id: string, curation: MediaCuration | undefined) => {
+    setMedia(prev => prev.map(m => m.id === id ? { ...m, curation } : m));
+  };
+
+  // Bulk import
+  const [importJobs, setImportJobs] = useState<ImportProgress[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [vaultView, setVaultView] = useState<'grid' | 'timeline'>('grid');
+
+  // Vault persistence: metadata in state, bytes in IndexedDB
+  const [vaultLoaded, setVaultLoaded] = useState(false);
+  const persistedIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    loadVault()
+        .then(stored => {
+            persistedIdsRef.current = new Set(stored.map(m => m.id));
+            // Keep anything imported while the vault was still loading.
+            setMedia(prev => [...stored, ...prev.filter(m => !persistedIdsRef.current.has(m.id))]);
+        })
+        .catch(e => console.error("Vault could not be restored", e))
+        .finally(() => setVaultLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!vaultLoaded) return;
+    const ids = new Set(media.map(m => m.id));
+    persistedIdsRef.current.forEach(id => {
+        if (!ids.has(id)) deleteMediaBlobs(id).catch(e => console.warn(`Could not delete media ${id}`, e));
+    });
+    persistedIdsRef.current = ids;
+    saveVault(media).catch(e => console.error("Vault could not be saved", e));
+  }, [media, vaultLoaded]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
 
@@ -89,7 +224,7 @@ function App() {
                 setIsProcessing(true);
                 setLoadingMsg("Alchemy transcribing...");
                 try {
-                    const text = await transcribeAudio(base64Audio);
+                    const text = await transcribeAudio(base64Audio, language);
                     setNaturalItinerary(prev => prev + " " + text);
                 } catch (e) { console.error(e); } finally { setIsProcessing(false); }
             };
@@ -101,19 +236,34 @@ function App() {
 
   const stopRecording = () => { mediaRecorderRef.current?.stop(); setIsRecording(false); };
 
-  // --- Google Photos Mock ---
-  const handleSelectAlbum = (albumId: string) => {
-    setIsProcessing(true);
-    setLoadingMsg("Synchronizing Cloud Fragments...");
+  // --- Media Sources ---
+  const ingest = async (jobs: AsyncIterable<ImportJob>) => {
+    const summary = await runImportQueue(jobs, {
+        onUpdate: (progress) => setImportJobs(prev => {
+            const idx = prev.findIndex(j => j.id === progress.id);
+            return idx === -1 ? [...prev, progress] : prev.map((j, i) => i === idx ? progress : j);
+        }),
+        onImported: (item) => setMedia(prev => addWithStacks(prev, [item]))
+    });
+    if (summary.failed.length > 0) console.warn(`${summary.failed.length} fragment(s) could not be imported`, summary.failed);
+  };
+
+  const handleSelectAlbum = (provider: MediaSourceProvider, album: MediaAlbum) => {
     setShowAlbumPicker(false);
-    setTimeout(() => {
-        const newMedia: MediaItem[] = [
-            { id: `cl-${Date.now()}-1`, url: "https://images.unsplash.com/photo-1507525428034-b723cf961d3e", mimeType: "image/jpeg", timestamp: new Date().toISOString(), source: 'cloud' },
-            { id: `cl-${Date.now()}-2`, url: "https://images.unsplash.com/photo-1476514525535-07fb3b4ae5f1", mimeType: "image/jpeg", timestamp: new Date().toISOString(), source: 'cloud' }
-        ];
-        setMedia(prev => [...prev, ...newMedia]);
-        setIsProcessing(false);
-    }, 2000);
+    ingest(albumJobs(provider, album));
+  };
+
+  const processFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const provider = createUploadProvider(files);
+    const [album] = await provider.listAlbums();
+    ingest(albumJobs(provider, album));
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    processFiles(await collectDroppedFiles(e.dataTransfer));
   };
 
   // --- Asset Generation ---
@@ -132,13 +282,16 @@ function App() {
     setIsProcessing(true);
     setLoadingMsg(genType === 'image' ? "Generating Cinematic Frame..." : "Rendering AI Sequence...");
     try {
-        if (genType === 'image') {
-            const url = await generateImage(genPrompt, imageAspectRatio, imageSize);
-            setMedia(prev => [...prev, { id: `ai-${Date.now()}`, url, mimeType: 'image/png', timestamp: new Date().toISOString(), source: 'ai', base64: url }]);
-        } else {
-            const url = await generateVideo(genPrompt, videoAspectRatio);
-            setMedia(prev => [...prev, { id: `ai-${Date.now()}`, url, mimeType: 'video/mp4', timestamp: new Date().toISOString(), source: 'ai' }]);
-        }
+        const id = `ai-${Date.now()}`;
+        const url = genType === 'image'
+            ? await generateImage(genPrompt, imageAspectRatio, imageSize)
+            : await generateVideo(genPrompt, videoAspectRatio);
+        // Generated assets go through the import pipeline so they are stored like any other fragment.
+        const blob = await (await fetch(url)).blob();
+        if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+        const file = new File([blob], genType === 'image' ? `${id}.png` : `${id}.mp4`, { type: blob.type || (genType === 'image' ? 'image/png' : 'video/mp4') });
+        const item = await createMediaItem({ file, source: { provider: 'ai' } }, id);
+        setMedia(prev => addWithStacks(prev, [item]));
         setAppState(AppState.IMPORTING);
         setGenPrompt('');
     } catch (e) {
@@ -156,40 +309,84 @@ function App() {
     try {
         const points = await extractItinerary(naturalItinerary);
         setItinerary(prev => [...prev, ...points]);
-    } catch (e) { console.error(e); } finally {
+    } catch (e) {
+        console.error(e);
+        if (e instanceof ModelOutputError) alert(e.message);
+    } finally {
         setIsProcessing(false);
         setNaturalItinerary('');
     }
   };
 
-  const processFiles = (files: File[]) => {
+  // --- Captions ---
+  const handleCaptionVault = async () => {
+    // Only fragments the user has not captioned by hand, so a re-run never clobbers edits.
+    const pending = media.filter(m => !m.captionEdited && !m.description);
+    if (pending.length === 0) return;
     setIsProcessing(true);
-    const newMedia: MediaItem[] = [];
-    let processedCount = 0;
-    files.forEach((file: File, idx: number) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            newMedia.push({
-                id: `media-${Date.now()}-${idx}`,
-                url: URL.createObjectURL(file),
-                mimeType: file.type,
-                timestamp: new Date().toISOString(),
-                base64: reader.result as string,
-                source: 'upload'
+    setLoadingMsg(`Captioning 0/${pending.length} fragments...`);
+    try {
+        const captions = await captionMedia(pending, done => setLoadingMsg(`Captioning ${done}/${pending.length} fragments...`));
+        const byId = new Map(captions.map(c => [c.mediaId, c]));
+        setMedia(prev => prev.map(m => {
+            const c = byId.get(m.id);
+            return c && !m.captionEdited ? { ...m, description: c.description, tags: c.tags } : m;
+        }));
+    } catch (e) {
+        console.error(e);
+        alert("Captioning failed. Fragments keep their existing captions.");
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  const editCaption = (id: string, description: string, tags: FocusTarget[]) => {
+    setMedia(prev => prev.map(m => m.id === id ? { ...m, description: description || undefined, tags, captionEdited: true } : m));
+  };
+
+  // Narration for one beat, timed to the story's pace and voiced as dialogue when it quotes the cast.
+  const voiceBeat = async (ctx: AudioContext, beat: StoryBeat, voice: string, { language, pace, cast }: Voicing) =>
+    ctx.decodeAudioData(await generateBeatAudio(beat.text, voice, {
+        language,
+        pace,
+        dialogue: beat.lines && cast ? { lines: beat.lines, cast } : undefined
+    }));
+
+  // Voices beats one at a time, in order, filling in the current story's audio as each is ready.
+  const createVoicingQueue = (voice: string, voicing: Voicing) => {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    const ctx = new AudioContextClass();
+    let queue = Promise.resolve();
+    return {
+        add: (beat: StoryBeat, position: number) => {
+            queue = queue.then(async () => {
+                try {
+                    const audioBuffer = await voiceBeat(ctx, beat, voice, voicing);
+                    setStory(prev => prev && { ...prev, beats: prev.beats.map((b, i) => i === position ? { ...b, audioBuffer } : b) });
+                } catch (e) {
+                    // The beat stays silent rather than holding up the rest of the premiere.
+                    console.error(`Narration failed for beat ${position + 1}`, e);
+                }
             });
-            processedCount++;
-            if (processedCount === files.length) {
-                setMedia(prev => [...prev, ...newMedia]);
-                setIsProcessing(false);
-            }
-        };
-        reader.readAsDataURL(file);
-    });
+        },
+        finish: async () => {
+            await queue;
+            await ctx.close();
+        }
+    };
   };
 
   const handleGenerate = async () => {
     setAppState(AppState.ANALYZING);
     setLoadingMsg("Activating Deep Thinking Mode...");
+    const draft: RecallStory = { title: tripTitle, language, pace, arcId: selectedArc.id, cutPackId: selectedCutPack.id, grade: selectedCutPack.grade, totalBeatsEstimate: arcSlots(selectedArc).length, cast: castForStory.length > 0 ? castForStory : undefined, beats: [] };
+    setStory(draft);
+    setIsBackgroundGenerating(true);
+
+    // Narration is synthesized while later beats are still being written.
+    const voicing = createVoicingQueue(narratorFor(selectedCutPack), draft);
+    let received = 0;
+
     try {
         const generatedStory = await analyzeTripAndGenerateStory({
             title: tripTitle,
@@ -198,28 +395,165 @@ function App() {
             pace,
             focus,
             ending,
-            media,
-            itinerary
+            media: selection.selected,
+            catalog: media.filter(m => m.curation !== 'excluded' && (!m.stackId || m.stackId === m.id) && !selection.selected.includes(m)),
+            itinerary: itinerary.length > 0 ? itinerary : deriveItineraryFromMedia(media),
+            language,
+            cast: castForStory,
+            onBeat: beat => {
+                const position = received++;
+                setStory(prev => prev && { ...prev, beats: [...prev.beats, beat] });
+                voicing.add(beat, position);
+                // The premiere opens on the first beat; the player buffers until its audio lands.
+                if (position === 0) setAppState(AppState.PREMIERE);
+            }
         });
+        // Grounding sources are only known once the whole story is in.
+        setStory(prev => prev && {
+            ...prev,
+            title: generatedStory.title,
+            totalBeatsEstimate: prev.beats.length,
+            beats: prev.beats.map((b, i) => generatedStory.beats[i]?.sources ? { ...b, sources: generatedStory.beats[i].sources } : b)
+        });
+        if (received === 0) setAppState(AppState.IMPORTING);
+    } catch (err) {
+        console.error(err);
+        // Beats that already arrived stay playable; with none, fall back to the studio.
+        if (received === 0) {
+            setAppState(AppState.IMPORTING);
+            if (err instanceof ModelOutputError) alert(err.message);
+        } else setStory(prev => prev && { ...prev, totalBeatsEstimate: prev.beats.length });
+    }
+    await voicing.finish();
+    setIsBackgroundGenerating(false);
+  };
+
+  // --- Alternative cuts ---
+  const variantLabel = (packId: string, arcId: string) =>
+    `${cutPacks.find(p => p.id === packId)?.name ?? 'Cut Pack'} · ${STORY_ARCS.find(a => a.id === arcId)?.name ?? 'Arc'}`;
+
+  // Writes the current direction plus each alternative as text-only takes; audio waits for the chosen cut.
+  const handleCompare = async () => {
+    const specs = [{ cutPackId: selectedCutPack.id, arcId: selectedArc.id }, ...alternativeCuts].map((spec, i) => ({
+        cutPack: cutPacks.find(p => p.id === spec.cutPackId) ?? selectedCutPack,
+        arc: STORY_ARCS.find(a => a.id === spec.arcId) ?? selectedArc,
+        // Distinct seeds, so repeating a pack and arc still gives a different take.
+        seed: i + 1
+    }));
+    setVariants(specs.map(spec => ({
+        label: variantLabel(spec.cutPack.id, spec.arc.id),
+        story: { title: tripTitle, language, pace, arcId: spec.arc.id, cutPackId: spec.cutPack.id, grade: spec.cutPack.grade, cast: castForStory.length > 0 ? castForStory : undefined, beats: [] },
+        status: 'writing'
+    })));
+    setAppState(AppState.COMPARING);
+    // Takes from a comparison the user has left are dropped.
+    const run = ++compareRunRef.current;
+    const update = (i: number, patch: (v: StoryVariant) => StoryVariant) => {
+        if (run === compareRunRef.current) setVariants(prev => prev && prev.map((v, j) => j === i ? patch(v) : v));
+    };
+
+    try {
+        const results = await generateStoryVariants({
+            title: tripTitle,
+            pace,
+            focus,
+            ending,
+            media: selection.selected,
+            catalog: media.filter(m => m.curation !== 'excluded' && (!m.stackId || m.stackId === m.id) && !selection.selected.includes(m)),
+            itinerary: itinerary.length > 0 ? itinerary : deriveItineraryFromMedia(media),
+            language,
+            cast: castForStory
+        }, specs, (i, beat) => update(i, v => ({ ...v, story: { ...v.story, beats: [...v.story.beats, beat] } })));
+        results.forEach((result, i) => update(i, v => result.status === 'fulfilled'
+            ? { ...v, story: result.value, status: 'done' }
+            : { ...v, status: 'failed', error: result.reason instanceof Error ? result.reason.message : 'Take failed' }));
+    } catch (err) {
+        // Preparing the fragments failed, so no take was written.
+        console.error(err);
+        if (run !== compareRunRef.current) return;
+        setVariants(null);
+        setAppState(AppState.DESIGNING);
+    }
+  };
+
+  const leaveComparison = () => {
+    compareRunRef.current++;
+    setVariants(null);
+  };
+
+  const handleChooseVariant = async (chosen: RecallStory) => {
+    const pack = cutPacks.find(p => p.id === chosen.cutPackId) ?? selectedCutPack;
+    setStory(chosen);
+    leaveComparison();
+    setIsBackgroundGenerating(true);
+    setAppState(AppState.PREMIERE);
+    const voicing = createVoicingQueue(narratorFor(pack), chosen);
+    chosen.beats.forEach((beat, i) => voicing.add(beat, i));
+    await voicing.finish();
+    setIsBackgroundGenerating(false);
+  };
 
-        setLoadingMsg("Developing Premiere Cut...");
+  // Commits the beat editor's story, re-voicing only beats whose narration changed.
+  const handleSaveEdits = async (edited: RecallStory) => {
+    const positions = beatsNeedingAudio(edited);
+    const beats = [...edited.beats];
+    if (positions.length > 0) {
         const AudioContextClass = window.AudioContext || window.webkitAudioContext;
         const ctx = new AudioContextClass();
-        const voice = selectedCutPack.category === 'Moody' ? 'Kore' : 'Puck';
+        try {
+            for (const i of positions) {
+                beats[i] = { ...beats[i], audioBuffer: await voiceBeat(ctx, beats[i], narratorFor(storyPack), edited) };
+            }
+        } finally {
+            await ctx.close();
+        }
+    }
+    setStory({ ...edited, beats });
+    setIsEditingStory(false);
+  };
+
+  const handleConfirmLocation = (position: number) => {
+    setStory(prev => prev && setBeatLocation(prev, position, prev.beats[position]?.location));
+  };
+
+  // Rewrites one beat from a director's note; every other beat (and its audio) is kept.
+  const handleRegenerateBeat = async (position: number, note: string) => {
+    if (!story) return;
+    const beat = await regenerateBeat({
+        story,
+        position,
+        note,
+        cutPack: storyPack,
+        arc: STORY_ARCS.find(a => a.id === story.arcId) ?? selectedArc,
+        ending,
+        media,
+        itinerary: itinerary.length > 0 ? itinerary : deriveItineraryFromMedia(media)
+    });
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    const ctx = new AudioContextClass();
+    try {
+        beat.audioBuffer = await voiceBeat(ctx, beat, narratorFor(storyPack), story);
+    } finally {
+        await ctx.close();
+    }
+    // Translations of the old beat no longer match, so the tracks are dropped like after an edit.
+    setStory(prev => prev && { ...prev, tracks: undefined, beats: prev.beats.map((b, i) => i === position ? beat : b) });
+  };
 
-        for (let i = 0; i < generatedStory.beats.length; i++) {
-            const beat = generatedStory.beats[i];
-            const ab = await generateBeatAudio(beat.text, voice);
-            beat.audioBuffer = await ctx.decodeAudioData(ab);
-            setLoadingMsg(`Mastering Scene ${i + 1}/${generatedStory.beats.length}...`);
+  // Translates the story into another language and voices every line of the new track.
+  const handleAddTrack = async (trackLanguage: string) => {
+    if (!story) return;
+    const track = await translateStory(story, trackLanguage, storyPack);
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    const ctx = new AudioContextClass();
+    try {
+        for (const line of track.lines) {
+            line.audioBuffer = await ctx.decodeAudioData(await generateBeatAudio(line.text, narratorFor(storyPack), { language: trackLanguage, pace: story.pace }));
         }
+    } finally {
         await ctx.close();
-        setStory(generatedStory);
-        setAppState(AppState.PREMIERE);
-    } catch (err) {
-        console.error(err);
-        setAppState(AppState.IMPORTING);
     }
+    setStory(prev => prev && { ...prev, tracks: [...(prev.tracks ?? []).filter(t => t.language !== trackLanguage), track] });
   };
 
   return (
@@ -286,7 +620,7 @@ function App() {
                                 className="flex flex-col items-center justify-center gap-3 bg-white/5 hover:bg-white/10 border border-white/5 py-8 rounded-3xl transition-all group"
                             >
                                 <Cloud size={24} className="text-white/20 group-hover:text-white" />
-                                <span className="text-[9px] font-bold tracking-widest uppercase">Google Photos</span>
+                                <span className="text-[9px] font-bold tracking-widest uppercase">Libraries</span>
                             </button>
                             <button 
                                 onClick={() => setAppState(AppState.GENERATING_ASSET)}
@@ -302,48 +636,76 @@ function App() {
                         <div className="h-[1px] bg-white/5 w-full"></div>
                         <div className="flex items-center justify-between text-[9px] font-bold tracking-widest text-white/20 uppercase">
                             <span>Local Uploads</span>
-                            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-white/40 hover:text-white transition-all">
-                                <Plus size={12} /> SELECT FILES
-                            </button>
+                            <div className="flex items-center gap-4">
+                                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 text-white/40 hover:text-white transition-all">
+                                    <Plus size={12} /> SELECT FILES
+                                </button>
+                                <button onClick={() => folderInputRef.current?.click()} className="flex items-center gap-2 text-white/40 hover:text-white transition-all">
+                                    <Plus size={12} /> FOLDER
+                                </button>
+                            </div>
                         </div>
-                        <input ref={fileInputRef} type="file" multiple className="hidden" onChange={(e) => processFiles(Array.from(e.target.files || []))} accept="image/*,video/*" />
+                        <input ref={fileInputRef} type="file" multiple className="hidden" onChange={(e) => { processFiles(Array.from(e.target.files || [])); e.target.value = ''; }} accept="image/*,video/*" />
+                        <input ref={folderInputRef} type="file" multiple className="hidden" onChange={(e) => { processFiles(Array.from<File>(e.target.files || []).filter(f => !f.name.startsWith('.'))); e.target.value = ''; }} {...{ webkitdirectory: '' }} />
                     </div>
                 </div>
             </div>
           </div>
 
           {/* VOYAGE VAULT (SIDEBAR) */}
-          <div className="w-full lg:w-[400px] flex flex-col">
-            <div className="glass p-10 rounded-[2.5rem] studio-border h-full flex flex-col">
+          <div
+            className="w-full lg:w-[400px] flex flex-col"
+            onDragOver={(e) => { if (!e.dataTransfer.types.includes('Files')) return; e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+            onDrop={handleDrop}
+          >
+            <div className={`glass p-10 rounded-[2.5rem] studio-border h-full flex flex-col transition-all ${isDragging ? 'ring-2 ring-white/40 bg-white/5' : ''}`}>
                 <div className="flex-1 space-y-8">
                     <div className="flex items-center justify-between">
                         <label className="text-[10px] font-bold uppercase tracking-[0.2em] text-white/30">Voyage Vault</label>
-                        <span className="text-[10px] font-mono text-white/20">{media.length} FRAGMENTS</span>
+                        <div className="flex items-center gap-4">
+                            <button
+                                onClick={handleCaptionVault}
+                                disabled={isProcessing || !media.some(m => !m.captionEdited && !m.description)}
+                                title="Caption and tag uncaptioned fragments"
+                                className="flex items-center gap-1 text-[9px] font-bold tracking-widest uppercase text-white/40 hover:text-white disabled:opacity-20 transition-colors"
+                            >
+                                <ScanText size={10} /> Caption
+                            </button>
+                            <button
+                                onClick={() => setVaultView(vaultView === 'grid' ? 'timeline' : 'grid')}
+                                title={vaultView === 'grid' ? 'Timeline view' : 'Grid view'}
+                                className="text-white/40 hover:text-white transition-colors"
+                            >
+                                {vaultView === 'grid' ? <CalendarDays size={12} /> : <LayoutGrid size={12} />}
+                            </button>
+                            <span className="text-[10px] font-mono text-white/20">{media.length} FRAGMENTS</span>
+                        </div>
                     </div>
 
                     {media.length === 0 ? (
                         <div className="flex-1 border border-dashed border-white/10 rounded-[2rem] flex flex-col items-center justify-center p-12 text-center space-y-6 opacity-30">
                             <Library size={48} />
-                            <p className="text-[10px] font-bold tracking-[0.2em] uppercase">The vault is waiting for fragments</p>
+                            <p className="text-[10px] font-bold tracking-[0.2em] uppercase">{isDragging ? 'Release to import' : 'The vault is waiting for fragments'}</p>
                         </div>
+                    ) : vaultView === 'timeline' ? (
+                        <VaultTimeline
+                            media={media}
+                            onMove={(id, group) => setMedia(prev => moveToGroup(prev, id, group))}
+                            onRestoreTime={(id) => setMedia(prev => restoreCaptureTime(prev, id))}
+                        />
                     ) : (
-                        <div className="grid grid-cols-4 gap-3 content-start">
-                            {media.map(m => (
-                                <div key={m.id} className="aspect-square rounded-xl overflow-hidden border border-white/10 relative group bg-zinc-900">
-                                    {m.mimeType.startsWith('video') ? (
-                                        <div className="w-full h-full flex items-center justify-center"><Film size={14} className="text-white/30" /></div>
-                                    ) : (
-                                        <img src={m.url} className="w-full h-full object-cover transition-transform group-hover:scale-110" />
-                                    )}
-                                    <button onClick={() => setMedia(prev => prev.filter(x => x.id !== m.id))} className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 bg-black/80 p-1 rounded-md transition-all">
-                                        <Trash2 size={10} className="text-red-400" />
-                                    </button>
-                                    {m.source === 'ai' && <div className="absolute bottom-1 left-1 w-1.5 h-1.5 bg-amber-500 rounded-full shadow-[0_0_5px_rgba(245,158,11,0.8)]"></div>}
-                                </div>
-                            ))}
-                            <button onClick={() => fileInputRef.current?.click()} className="aspect-square rounded-xl border border-dashed border-white/20 flex items-center justify-center text-white/20 hover:text-white transition-all">+</button>
-                        </div>
+                        <VaultGrid
+                            media={media}
+                            onRemove={(id) => setMedia(prev => normalizeStacks(prev.filter(x => x.id !== id)))}
+                            onSetHero={(id) => setMedia(prev => setStackHero(prev, id))}
+                            onRemoveDuplicates={(stackId) => setMedia(prev => removeStackDuplicates(prev, stackId))}
+                            onCaption={editCaption}
+                            onAdd={() => fileInputRef.current?.click()}
+                        />
                     )}
+
+                    <ImportQueuePanel jobs={importJobs} onClear={() => setImportJobs([])} />
                 </div>
 
                 <div className="pt-10">
@@ -363,36 +725,7 @@ function App() {
 
       {/* ALBUM PICKER MODAL */}
       {showAlbumPicker && (
-          <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-xl flex items-center justify-center p-6 animate-fade-in">
-              <div className="max-w-4xl w-full glass p-12 rounded-[3.5rem] studio-border space-y-12 relative">
-                  <button onClick={() => setShowAlbumPicker(false)} className="absolute top-10 right-10 text-white/40 hover:text-white transition-all"><X size={28}/></button>
-                  <header className="space-y-2 text-center">
-                      <h2 className="text-5xl font-serif text-gradient">Google Photos</h2>
-                      <p className="text-[10px] text-white/40 uppercase tracking-[0.4em]">Connect your fragments for the premiere</p>
-                  </header>
-
-                  <div className="grid md:grid-cols-3 gap-8">
-                      {MOCK_ALBUMS.map(alb => (
-                          <button 
-                            key={alb.id}
-                            onClick={() => handleSelectAlbum(alb.id)}
-                            className="group flex flex-col text-left space-y-6"
-                          >
-                              <div className="aspect-[4/5] rounded-[2.5rem] overflow-hidden relative border border-white/5 transition-all group-hover:scale-[1.02] group-hover:border-white/20 shadow-2xl">
-                                  <img src={alb.cover} className="w-full h-full object-cover grayscale opacity-40 group-hover:grayscale-0 group-hover:opacity-100 transition-all duration-1000" />
-                                  <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-transparent"></div>
-                                  <div className="absolute bottom-8 left-8">
-                                      <p className="text-[10px] font-bold tracking-widest text-white/50 uppercase">{alb.count} ITEMS</p>
-                                  </div>
-                              </div>
-                              <div className="px-2">
-                                  <p className="text-lg font-bold tracking-widest uppercase">{alb.title}</p>
-                              </div>
-                          </button>
-                      ))}
-                  </div>
-              </div>
-          </div>
+          <AlbumPicker providers={MEDIA_PROVIDERS} onSelect={handleSelectAlbum} onClose={() => setShowAlbumPicker(false)} />
       )}
 
       {appState === AppState.GENERATING_ASSET && (
@@ -477,21 +810,76 @@ function App() {
             <div className="grid lg:grid-cols-3 gap-16">
                 <div className="lg:col-span-2 space-y-12">
                     <div className="space-y-8">
-                        <h3 className="text-[11px] font-bold tracking-[0.4em] uppercase text-white/40">Select Cut Pack</h3>
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-[11px] font-bold tracking-[0.4em] uppercase text-white/40">Select Cut Pack</h3>
+                            <div className="flex items-center gap-6 text-[9px] font-bold tracking-widest uppercase text-white/30">
+                                <button onClick={() => packFileInputRef.current?.click()} className="flex items-center gap-1 hover:text-white transition-colors"><Upload size={10} /> Import</button>
+                                <button onClick={handleExportPacks} disabled={customPacks.length === 0} className="flex items-center gap-1 hover:text-white disabled:opacity-30 transition-colors"><Download size={10} /> Export</button>
+                                <input
+                                    type="file"
+                                    ref={packFileInputRef}
+                                    className="hidden"
+                                    accept="application/json,.json"
+                                    onChange={(e) => { handleImportPacks(e.target.files?.[0]); e.target.value = ''; }}
+                                />
+                            </div>
+                        </div>
                         <div className="grid md:grid-cols-2 gap-6">
-                            {CUT_PACKS.map(pack => (
+                            {cutPacks.map(pack => (
                                 <button 
                                     key={pack.id}
-                                    onClick={() => setSelectedCutPack(pack)}
+                                    onClick={() => selectCutPack(pack)}
                                     className={`p-10 rounded-[3rem] border text-left transition-all relative overflow-hidden group ${selectedCutPack.id === pack.id ? 'bg-white text-black border-white shadow-2xl' : 'glass border-white/10 hover:border-white/30'}`}
                                 >
                                     <div className="text-3xl font-serif mb-2">{pack.name}</div>
                                     <div className={`text-xs italic font-medium mb-4 ${selectedCutPack.id === pack.id ? 'text-black/60' : 'text-white/40'}`}>{pack.promise}</div>
                                     <div className={`text-[11px] leading-relaxed ${selectedCutPack.id === pack.id ? 'text-black/40' : 'text-white/20'}`}>{pack.description}</div>
+                                    <div className={`mt-6 text-[9px] font-bold tracking-widest uppercase ${selectedCutPack.id === pack.id ? 'text-black/40' : 'text-white/20'}`}>{narratorFor(pack)} · {pack.pace} · {pack.grade}</div>
+                                    {pack.custom && (
+                                        <span
+                                            role="button"
+                                            onClick={(e) => { e.stopPropagation(); setEditingPack(pack); }}
+                                            title="Edit Cut Pack"
+                                            className="absolute top-8 right-8 opacity-0 group-hover:opacity-100 transition-all"
+                                        >
+                                            <PenLine size={16} />
+                                        </span>
+                                    )}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => setEditingPack('new')}
+                                className="p-10 rounded-[3rem] border border-dashed border-white/10 text-white/30 hover:text-white hover:border-white/30 flex flex-col items-center justify-center gap-3 transition-all"
+                            >
+                                <Plus size={24} />
+                                <span className="text-[10px] font-bold tracking-[0.3em] uppercase">New Cut Pack</span>
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-8">
+                        <h3 className="text-[11px] font-bold tracking-[0.4em] uppercase text-white/40">Story Arc</h3>
+                        <div className="grid md:grid-cols-3 gap-4">
+                            {STORY_ARCS.map(arc => (
+                                <button
+                                    key={arc.id}
+                                    onClick={() => setSelectedArc(arc)}
+                                    className={`p-6 rounded-[2rem] border text-left transition-all space-y-3 ${selectedArc.id === arc.id ? 'bg-white text-black border-white shadow-2xl' : 'glass border-white/10 hover:border-white/30'}`}
+                                >
+                                    <div className="text-xl font-serif">{arc.name}</div>
+                                    <div className={`text-[9px] font-bold tracking-widest uppercase ${selectedArc.id === arc.id ? 'text-black/50' : 'text-white/30'}`}>{arc.structure} · {arcSlots(arc).length} beats</div>
+                                    <div className={`text-[10px] italic ${selectedArc.id === arc.id ? 'text-black/40' : 'text-white/20'}`}>{arc.bestFor}</div>
+                                    <div className="flex gap-1">
+                                        {arc.acts.map(act => (
+                                            <div key={act.name} title={`${act.name}: ${act.slots.map(s => s.role).join(' · ')}`} className={`h-1 rounded-full ${selectedArc.id === arc.id ? 'bg-black/30' : 'bg-white/10'}`} style={{ flex: act.slots.length }}></div>
+                                        ))}
+                                    </div>
                                 </button>
                             ))}
                         </div>
                     </div>
+
+                    <FragmentSelection media={media} selection={selection} onCurate={curateMedia} />
                 </div>
 
                 <div className="space-y-12">
@@ -502,16 +890,54 @@ function App() {
                             <div className="space-y-5">
                                 <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30">Pace</label>
                                 <div className="flex gap-2 p-2 bg-black/40 rounded-full border border-white/5">
-                                    {PACE_OPTIONS.map(p => (
+                                    {PACE_LEVELS.map(p => (
                                         <button key={p} onClick={() => setPace(p)} className={`flex-1 py-3 text-[9px] font-bold rounded-full transition-all ${pace === p ? 'bg-white text-black shadow-xl' : 'text-white/30 hover:text-white'}`}>{p.toUpperCase()}</button>
                                     ))}
                                 </div>
                             </div>
 
+                            <div className="space-y-5">
+                                <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30">Ending</label>
+                                <div className="flex gap-2 p-2 bg-black/40 rounded-full border border-white/5">
+                                    {ENDING_OPTIONS.map(e => (
+                                        <button key={e} onClick={() => setEnding(e)} className={`flex-1 py-3 text-[9px] font-bold rounded-full transition-all ${ending === e ? 'bg-white text-black shadow-xl' : 'text-white/30 hover:text-white'}`}>{e.toUpperCase()}</button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-5">
+                                <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30">Language</label>
+                                <select
+                                    value={language}
+                                    onChange={(e) => setLanguage(e.target.value)}
+                                    className="w-full px-6 py-3 bg-black/40 rounded-full border border-white/5 text-[10px] font-bold tracking-widest uppercase text-white/70 outline-none"
+                                >
+                                    {NARRATION_LANGUAGES.map(l => <option key={l.code} value={l.code} className="bg-black">{l.native}</option>)}
+                                </select>
+                            </div>
+
+                            <VoiceCasting
+                                packName={selectedCutPack.name}
+                                narrator={narratorFor(selectedCutPack)}
+                                onNarrator={(voice) => setNarratorVoices(prev => ({ ...prev, [selectedCutPack.id]: voice }))}
+                                cast={cast}
+                                onCast={setCast}
+                                language={language}
+                            />
+
+                            <ScorePicker
+                                packName={selectedCutPack.name}
+                                tracks={[...MUSIC_LIBRARY, ...uploadedScores]}
+                                value={scoreFor(selectedCutPack)}
+                                onChange={(score) => setPackScores(prev => ({ ...prev, [selectedCutPack.id]: score }))}
+                                onUpload={handleUploadScore}
+                                onDelete={handleDeleteScore}
+                            />
+
                             <div className="space-y-5">
                                 <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30">Focus</label>
                                 <div className="flex flex-wrap gap-2">
-                                    {FOCUS_OPTIONS.map(f => (
+                                    {FOCUS_TARGETS.map(f => (
                                         <button key={f} onClick={() => setFocus(prev => prev.includes(f) ? prev.filter(x => x !== f) : [...prev, f])} className={`px-5 py-3 text-[9px] font-bold rounded-full border transition-all ${focus.includes(f) ? 'bg-white text-black border-white' : 'border-white/10 text-white/30 hover:border-white/20'}`}>{f.toUpperCase()}</button>
                                     ))}
                                 </div>
@@ -520,10 +946,50 @@ function App() {
 
                         <button 
                             onClick={handleGenerate}
-                            className="w-full bg-white text-black py-8 rounded-full font-bold tracking-[0.3em] flex items-center justify-center gap-4 hover:scale-105 active:scale-95 transition-all shadow-[0_20px_50px_rgba(255,255,255,0.1)]"
+                            disabled={isBackgroundGenerating}
+                            className="w-full bg-white text-black py-8 rounded-full font-bold tracking-[0.3em] flex items-center justify-center gap-4 hover:scale-105 active:scale-95 transition-all shadow-[0_20px_50px_rgba(255,255,255,0.1)] disabled:opacity-30 disabled:hover:scale-100"
                         >
-                            <Sparkles size={24} /> PREMIERE FILM
+                            <Sparkles size={24} /> {isBackgroundGenerating ? 'STILL RENDERING...' : 'PREMIERE FILM'}
                         </button>
+
+                        <div className="space-y-4 pt-6 border-t border-white/5">
+                            <div className="flex items-center justify-between">
+                                <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30">Alternative Cuts</label>
+                                <button
+                                    onClick={() => setAlternativeCuts(prev => [...prev, { cutPackId: selectedCutPack.id, arcId: selectedArc.id }])}
+                                    disabled={alternativeCuts.length >= MAX_ALTERNATIVE_CUTS}
+                                    className="flex items-center gap-1 text-[9px] font-bold tracking-widest uppercase text-white/30 hover:text-white disabled:opacity-30"
+                                >
+                                    <Plus size={10} /> Add
+                                </button>
+                            </div>
+                            {alternativeCuts.map((alt, i) => (
+                                <div key={i} className="flex items-center gap-2">
+                                    <select
+                                        value={alt.cutPackId}
+                                        onChange={(e) => setAlternativeCuts(prev => prev.map((a, j) => j === i ? { ...a, cutPackId: e.target.value } : a))}
+                                        className="flex-1 min-w-0 px-4 py-2 bg-black/40 rounded-full border border-white/5 text-[9px] font-bold tracking-widest uppercase text-white/60 outline-none"
+                                    >
+                                        {cutPacks.map(p => <option key={p.id} value={p.id} className="bg-black">{p.name}</option>)}
+                                    </select>
+                                    <select
+                                        value={alt.arcId}
+                                        onChange={(e) => setAlternativeCuts(prev => prev.map((a, j) => j === i ? { ...a, arcId: e.target.value } : a))}
+                                        className="flex-1 min-w-0 px-4 py-2 bg-black/40 rounded-full border border-white/5 text-[9px] font-bold tracking-widest uppercase text-white/60 outline-none"
+                                    >
+                                        {STORY_ARCS.map(a => <option key={a.id} value={a.id} className="bg-black">{a.name}</option>)}
+                                    </select>
+                                    <button onClick={() => setAlternativeCuts(prev => prev.filter((_, j) => j !== i))} className="p-2 text-white/30 hover:text-white"><X size={12} /></button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={handleCompare}
+                                disabled={alternativeCuts.length === 0 || isBackgroundGenerating}
+                                className="w-full py-4 rounded-full border border-white/10 text-[10px] font-bold tracking-[0.3em] text-white/60 hover:text-white hover:border-white/30 disabled:opacity-30 flex items-center justify-center gap-2 transition-all"
+                            >
+                                <Columns3 size={14} /> COMPARE {alternativeCuts.length + 1} CUTS
+                            </button>
+                        </div>
                     </div>
                 </div>
             </div>
@@ -548,7 +1014,35 @@ function App() {
       )}
 
       {(appState === AppState.PREMIERE || appState === AppState.PLAYBACK) && story && (
-        <ScrollyStory story={story} media={media} onExit={() => setAppState(AppState.IMPORTING)} />
+        <ScrollyStory story={story} media={media} isBackgroundGenerating={isBackgroundGenerating} onExit={() => setAppState(AppState.IMPORTING)} onRegenerateBeat={handleRegenerateBeat} onEdit={() => setIsEditingStory(true)} onConfirmLocation={handleConfirmLocation} onAddTrack={handleAddTrack} score={scoreFor(storyPack)} />
+      )}
+
+      {appState === AppState.COMPARING && variants && (
+        <VariantCompare
+          variants={variants}
+          media={media}
+          onChoose={handleChooseVariant}
+          onCancel={() => { leaveComparison(); setAppState(AppState.DESIGNING); }}
+        />
+      )}
+
+      {isEditingStory && story && (
+        <StoryEditor
+          story={story}
+          media={media}
+          itinerary={itinerary.length > 0 ? itinerary : deriveItineraryFromMedia(media)}
+          onSave={handleSaveEdits}
+          onCancel={() => setIsEditingStory(false)}
+        />
+      )}
+
+      {editingPack && (
+        <CutPackEditor
+          pack={editingPack === 'new' ? undefined : editingPack}
+          onSave={saveCutPack}
+          onDelete={deleteCutPack}
+          onClose={() => setEditingPack(null)}
+        />
       )}
 
       {/* GLOBAL LOADING OVERLAY */}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, Library, AlertCircle } from 'lucide-react';
+import { MediaProviderId } from '../types';
+import { MediaAlbum, MediaSourceProvider } from '../services/mediaSources';
+
+interface Props {
+  providers: MediaSourceProvider[];
+  onSelect: (provider: MediaSourceProvider, album: MediaAlbum) => void;
+  onClose: () => void;
+}
+
+/** Providers that only list after a click, with the label of the button that starts them. */
+const GESTURE_PROVIDERS: Partial<Record<MediaProviderId, string>> = {
+  'local-folder': 'CHOOSE FOLDER',
+  'google-photos': 'CONNECT GOOGLE PHOTOS'
+};
+
+const AlbumPicker: React.FC<Props> = ({ providers, onSelect, onClose }) => {
+  const available = providers.filter(p => p.isAvailable());
+  const [provider, setProvider] = useState<MediaSourceProvider | undefined>(available[0]);
+  const [albums, setAlbums] = useState<MediaAlbum[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAlbums = async (p: MediaSourceProvider) => {
+    setAlbums(null);
+    setError(null);
+    try {
+      setAlbums(await p.listAlbums());
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Albums could not be listed');
+      setAlbums([]);
+    }
+  };
+
+  // Folder pickers and Google sign-in open windows, which needs a user gesture; other providers load on open.
+  useEffect(() => {
+    if (provider && !GESTURE_PROVIDERS[provider.id]) loadAlbums(provider);
+  }, [provider]);
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-xl flex items-center justify-center p-6 animate-fade-in">
+      <div className="max-w-4xl w-full glass p-12 rounded-[3.5rem] studio-border space-y-12 relative">
+        <button onClick={onClose} className="absolute top-10 right-10 text-white/40 hover:text-white transition-all"><X size={28}/></button>
+        <header className="space-y-6 text-center">
+          <h2 className="text-5xl font-serif text-gradient">{provider?.label || 'Libraries'}</h2>
+          <p className="text-[10px] text-white/40 uppercase tracking-[0.4em]">Connect your fragments for the premiere</p>
+          <div className="inline-flex bg-white/5 p-1 rounded-full border border-white/5">
+            {available.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setProvider(p)}
+                className={`px-5 py-2 rounded-full text-[9px] font-bold tracking-widest uppercase transition-all ${provider?.id === p.id ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        {error && (
+          <div className="flex items-center justify-center gap-2 text-red-400 text-[10px] font-bold tracking-widest uppercase">
+            <AlertCircle size={14} /> {error}
+          </div>
+        )}
+
+        {provider && GESTURE_PROVIDERS[provider.id] && albums === null ? (
+          <div className="flex justify-center">
+            <button onClick={() => loadAlbums(provider)} className="bg-white text-black px-10 py-4 rounded-full text-[10px] font-bold tracking-widest">
+              {GESTURE_PROVIDERS[provider.id]}
+            </button>
+          </div>
+        ) : albums === null ? (
+          <div className="flex justify-center py-12"><Loader2 size={32} className="animate-spin text-white/30" /></div>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-8 max-h-[50vh] overflow-y-auto no-scrollbar">
+            {albums.map(alb => (
+              <button
+                key={alb.id}
+                onClick={() => provider && onSelect(provider, alb)}
+                className="group flex flex-col text-left space-y-6"
+              >
+                <div className="aspect-[4/5] rounded-[2.5rem] overflow-hidden relative border border-white/5 transition-all group-hover:scale-[1.02] group-hover:border-white/20 shadow-2xl bg-zinc-900">
+                  {alb.coverUrl ? (
+                    <img src={alb.coverUrl} className="w-full h-full object-cover grayscale opacity-40 group-hover:grayscale-0 group-hover:opacity-100 transition-all duration-1000" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center"><Library size={40} className="text-white/10" /></div>
+                  )}
+                  <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-transparent"></div>
+                  {alb.count !== undefined && (
+                    <div className="absolute bottom-8 left-8">
+                      <p className="text-[10px] font-bold tracking-widest text-white/50 uppercase">{alb.count} ITEMS</p>
+                    </div>
+                  )}
+                </div>
+                <div className="px-2">
+                  <p className="text-lg font-bold tracking-widest uppercase">{alb.title}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlbumPicker;
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Clapperboard, Loader2, AlertCircle, X } from 'lucide-react';
+
+interface Props {
+  /** Rewrites the beat and re-voices it; rejects when the rewrite fails. */
+  onDirect: (note: string) => Promise<void>;
+}
+
+const BeatDirector: React.FC<Props> = ({ onDirect }) => {
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim() || working) return;
+    setWorking(true);
+    setError(null);
+    try {
+      await onDirect(note.trim());
+      setNote('');
+      setOpen(false);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Rewrite failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-2 px-5 py-2 rounded-full border border-white/10 bg-white/5 backdrop-blur-3xl text-[9px] font-bold tracking-[0.3em] uppercase text-white/40 hover:text-white hover:border-white/30 transition-all"
+      >
+        <Clapperboard size={12} /> Direct this beat
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="max-w-xl mx-auto space-y-3 animate-fade-in">
+      <div className="flex items-center gap-2 bg-black/60 border border-white/10 rounded-full pl-6 pr-2 py-2 backdrop-blur-3xl">
+        <input
+          autoFocus
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          disabled={working}
+          placeholder="Director's note: less cheesy, mention the ferry..."
+          className="flex-1 bg-transparent text-sm text-white/80 outline-none placeholder:text-white/20"
+        />
+        <button
+          type="submit"
+          disabled={!note.trim() || working}
+          className="px-5 py-2 rounded-full bg-white text-black text-[9px] font-bold tracking-widest disabled:opacity-30 flex items-center gap-2"
+        >
+          {working ? <><Loader2 size={12} className="animate-spin" /> RECUTTING</> : 'RECUT'}
+        </button>
+        <button type="button" onClick={() => setOpen(false)} disabled={working} className="p-2 text-white/40 hover:text-white">
+          <X size={14} />
+        </button>
+      </div>
+      {error && (
+        <div className="flex items-center justify-center gap-2 text-red-400 text-[10px] font-bold tracking-widest uppercase">
+          <AlertCircle size={12} /> {error}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default BeatDirector;
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { MediaItem, FocusTarget, FOCUS_TARGETS } from '../types';
+import MediaThumb from './MediaThumb';
+
+interface Props {
+  item: MediaItem;
+  onSave: (description: string, tags: FocusTarget[]) => void;
+  onClose: () => void;
+}
+
+const CaptionEditor: React.FC<Props> = ({ item, onSave, onClose }) => {
+  const [description, setDescription] = useState(item.description || '');
+  const [tags, setTags] = useState<FocusTarget[]>(item.tags || []);
+
+  const toggleTag = (tag: FocusTarget) =>
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between text-[9px] font-bold tracking-widest uppercase text-white/40">
+        <span>Caption{item.captionEdited ? ' · edited' : ''}</span>
+        <button onClick={onClose} className="hover:text-white"><X size={12} /></button>
+      </div>
+      <div className="flex gap-3">
+        <div className="w-16 h-16 shrink-0 rounded-lg overflow-hidden bg-zinc-900 border border-white/10">
+          <MediaThumb item={item} />
+        </div>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="What happens in this fragment?"
+          className="flex-1 h-16 bg-black/40 border border-white/10 rounded-lg p-2 text-[11px] text-white/80 resize-none outline-none focus:border-white/30"
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {FOCUS_TARGETS.map(tag => (
+          <button
+            key={tag}
+            onClick={() => toggleTag(tag)}
+            className={`px-2 py-1 rounded-full text-[8px] font-bold tracking-widest uppercase border transition-all ${tags.includes(tag) ? 'bg-white text-black border-white' : 'border-white/10 text-white/40 hover:text-white'}`}
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => { onSave(description.trim(), tags); onClose(); }}
+        className="w-full py-2 rounded-full bg-white/10 hover:bg-white/20 text-[9px] font-bold tracking-[0.3em] uppercase transition-all"
+      >
+        Save Caption
+      </button>
+    </div>
+  );
+};
+
+export default CaptionEditor;
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Trash2 } from 'lucide-react';
+import { CutPack, VisualGrade } from '../types';
+import { CUT_PACK_CATEGORIES, NARRATOR_VOICES, PACE_LEVELS, VISUAL_GRADES } from '../services/cutPacks';
+
+interface Props {
+  /** Pack to edit; omitted when creating a new one. */
+  pack?: CutPack;
+  onSave: (pack: CutPack) => void;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const EMPTY_PACK: Omit<CutPack, 'id'> = {
+  category: 'Artsy', name: '', promise: '', description: '',
+  voice: 'Puck', pace: 'Balanced', grade: 'Natural', sampleLines: [], custom: true
+};
+
+const fieldClass = 'w-full bg-black/40 border border-white/10 rounded-2xl px-5 py-3 text-sm text-white/80 outline-none focus:border-white/30';
+const labelClass = 'text-[9px] font-bold uppercase tracking-[0.3em] text-white/30';
+
+const Choice = <T extends string>({ options, value, onChange }: { options: T[]; value: T; onChange: (v: T) => void }) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map(o => (
+      <button
+        key={o}
+        type="button"
+        onClick={() => onChange(o)}
+        className={`px-4 py-2 text-[9px] font-bold rounded-full border transition-all ${value === o ? 'bg-white text-black border-white' : 'border-white/10 text-white/30 hover:border-white/20'}`}
+      >
+        {o.toUpperCase()}
+      </button>
+    ))}
+  </div>
+);
+
+const CutPackEditor: React.FC<Props> = ({ pack, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Omit<CutPack, 'id'>>(pack ?? EMPTY_PACK);
+  const [lines, setLines] = useState((pack?.sampleLines ?? []).join('\n'));
+  const update = (patch: Partial<CutPack>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      id: pack?.id ?? `custom-${Date.now()}`,
+      name: draft.name.trim(),
+      sampleLines: lines.split('\n').map(l => l.trim()).filter(Boolean),
+      custom: true
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/90 backdrop-blur-xl flex items-center justify-center p-6 animate-fade-in">
+      <div className="max-w-3xl w-full glass p-12 rounded-[3.5rem] studio-border space-y-8 relative max-h-[90vh] overflow-y-auto no-scrollbar">
+        <button onClick={onClose} className="absolute top-10 right-10 text-white/40 hover:text-white transition-all"><X size={28}/></button>
+        <header className="space-y-4 text-center">
+          <h2 className="text-5xl font-serif text-gradient">{pack ? 'Edit Cut Pack' : 'New Cut Pack'}</h2>
+          <p className="text-[10px] text-white/40 uppercase tracking-[0.4em]">Define a house style for the narrative engine</p>
+        </header>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Desert Western" className={fieldClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Promise</label>
+            <input value={draft.promise} onChange={(e) => update({ promise: e.target.value })} placeholder="Dusty & Laconic" className={fieldClass} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Description</label>
+          <textarea value={draft.description} onChange={(e) => update({ description: e.target.value })} className={`${fieldClass} h-20 resize-none`} />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Category</label>
+          <Choice options={CUT_PACK_CATEGORIES} value={draft.category} onChange={(category) => update({ category })} />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Narrator Voice</label>
+          <Choice options={NARRATOR_VOICES} value={draft.voice} onChange={(voice) => update({ voice })} />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Preferred Pace</label>
+          <Choice options={PACE_LEVELS} value={draft.pace} onChange={(pace) => update({ pace })} />
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Visual Grade</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(VISUAL_GRADES) as VisualGrade[]).map(grade => (
+              <button
+                key={grade}
+                type="button"
+                onClick={() => update({ grade })}
+                className={`h-14 rounded-2xl border overflow-hidden relative transition-all ${draft.grade === grade ? 'border-white' : 'border-white/10 opacity-60 hover:opacity-100'}`}
+              >
+                <div className="absolute inset-0 bg-gradient-to-br from-sky-400 via-amber-300 to-rose-500" style={{ filter: VISUAL_GRADES[grade] }}></div>
+                <span className="relative text-[9px] font-bold tracking-widest uppercase drop-shadow">{grade}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Sample Lines (one per line)</label>
+          <textarea value={lines} onChange={(e) => setLines(e.target.value)} placeholder="The road out of town was longer than the road in." className={`${fieldClass} h-24 resize-none font-serif italic`} />
+        </div>
+
+        <div className="flex gap-4">
+          {pack && onDelete && (
+            <button
+              onClick={() => { onDelete(pack.id); onClose(); }}
+              className="px-8 py-5 rounded-full border border-red-500/30 text-red-400 text-[10px] font-bold tracking-widest flex items-center gap-2 hover:bg-red-500/10 transition-all"
+            >
+              <Trash2 size={14} /> DELETE
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!draft.name.trim()}
+            className="flex-1 bg-white text-black py-5 rounded-full font-bold tracking-[0.2em] text-[11px] disabled:opacity-20 transition-all"
+          >
+            SAVE PACK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CutPackEditor;
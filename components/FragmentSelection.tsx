@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Pin, EyeOff, Check } from 'lucide-react';
+import { MediaItem, MediaCuration } from '../types';
+import { MediaSelection } from '../services/mediaSelection';
+import MediaThumb from './MediaThumb';
+
+interface Props {
+  media: MediaItem[];
+  selection: MediaSelection;
+  onCurate: (id: string, curation: MediaCuration | undefined) => void;
+}
+
+const FragmentSelection: React.FC<Props> = ({ media, selection, onCurate }) => {
+  const chosen = new Set(selection.selected.map(m => m.id));
+  const duplicates = new Set(selection.duplicates);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[11px] font-bold tracking-[0.4em] uppercase text-white/40">Selected Fragments</h3>
+        <span className="text-[10px] font-mono text-white/20">
+          {selection.selected.length} / {media.length} CHOSEN · {selection.clusters.length} MOMENTS
+        </span>
+      </div>
+      <div className="grid grid-cols-6 md:grid-cols-8 gap-3">
+        {media.map(m => {
+          const isChosen = chosen.has(m.id);
+          return (
+            <div
+              key={m.id}
+              title={duplicates.has(m.id) ? 'Skipped: near-duplicate of a chosen frame' : undefined}
+              className={`aspect-square rounded-xl overflow-hidden border relative group bg-zinc-900 transition-all ${isChosen ? 'border-white' : 'border-white/5 opacity-30'} ${m.curation === 'excluded' ? 'grayscale' : ''}`}
+            >
+              <MediaThumb item={m} />
+              {isChosen && (
+                <div className="absolute top-1 left-1 bg-white text-black rounded-full p-0.5"><Check size={8} /></div>
+              )}
+              <div className="absolute inset-x-1 bottom-1 flex justify-between opacity-0 group-hover:opacity-100 transition-all">
+                <button
+                  onClick={() => onCurate(m.id, m.curation === 'pinned' ? undefined : 'pinned')}
+                  title="Always include"
+                  className={`p-1 rounded-md ${m.curation === 'pinned' ? 'bg-amber-500 text-black' : 'bg-black/80 text-white'}`}
+                >
+                  <Pin size={10} />
+                </button>
+                <button
+                  onClick={() => onCurate(m.id, m.curation === 'excluded' ? undefined : 'excluded')}
+                  title="Never include"
+                  className={`p-1 rounded-md ${m.curation === 'excluded' ? 'bg-red-500 text-black' : 'bg-black/80 text-white'}`}
+                >
+                  <EyeOff size={10} />
+                </button>
+              </div>
+              {m.curation === 'pinned' && (
+                <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-amber-500 rounded-full shadow-[0_0_5px_rgba(245,158,11,0.8)]"></div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FragmentSelection;
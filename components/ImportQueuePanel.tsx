@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Loader2, CheckCircle2, AlertCircle, X } from 'lucide-react';
+import { ImportProgress } from '../services/importQueue';
+
+interface Props {
+  jobs: ImportProgress[];
+  onClear: () => void;
+}
+
+const ImportQueuePanel: React.FC<Props> = ({ jobs, onClear }) => {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(j => j.status !== 'queued' && j.status !== 'importing');
+  const problems = jobs.filter(j => j.status === 'failed' || j.status === 'unsupported');
+  const active = jobs.filter(j => j.status === 'importing');
+  const running = finished.length < jobs.length;
+  const overall = jobs.reduce((sum, j) => sum + (j.status === 'importing' ? j.progress : j.status === 'queued' ? 0 : 1), 0) / jobs.length;
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3 animate-fade-in">
+      <div className="flex items-center justify-between text-[9px] font-bold tracking-widest uppercase text-white/40">
+        <span className="flex items-center gap-2">
+          {running ? <Loader2 size={10} className="animate-spin" /> : <CheckCircle2 size={10} className="text-emerald-400" />}
+          {running ? 'Importing' : 'Imported'} {finished.length - problems.length} / {jobs.length}
+        </span>
+        {!running && <button onClick={onClear} className="hover:text-white"><X size={12} /></button>}
+      </div>
+      <div className="h-[2px] bg-white/10 rounded-full overflow-hidden">
+        <div className="h-full bg-white transition-all" style={{ width: `${Math.round(overall * 100)}%` }}></div>
+      </div>
+      {active.length > 0 && (
+        <ul className="space-y-1">
+          {active.map(j => (
+            <li key={j.id} className="flex items-center justify-between gap-3 text-[9px] font-mono text-white/40">
+              <span className="truncate">{j.name}</span>
+              <span>{Math.round(j.progress * 100)}%</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {problems.length > 0 && (
+        <ul className="space-y-1 max-h-32 overflow-y-auto no-scrollbar">
+          {problems.map(j => (
+            <li key={j.id} className={`flex items-start gap-2 text-[9px] ${j.status === 'unsupported' ? 'text-amber-400/80' : 'text-red-400/80'}`}>
+              <AlertCircle size={10} className="shrink-0 mt-[1px]" />
+              <span className="break-all">{j.error || j.name}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportQueuePanel;
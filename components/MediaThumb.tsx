@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Film } from 'lucide-react';
+import { MediaItem } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+
+interface Props {
+  item: MediaItem;
+  className?: string;
+}
+
+/**
+ * Grid thumbnail loaded lazily from the media store. Videos never fall back to their
+ * original (an <img> cannot show it), so a clip without a poster gets a placeholder.
+ */
+const MediaThumb: React.FC<Props> = ({ item, className = '' }) => {
+  const isVideo = item.mimeType.startsWith('video');
+  const url = useMediaUrl(item.id, ...(isVideo ? ['thumbnail' as const] : ['thumbnail' as const, 'original' as const]));
+  if (!url) {
+    return (
+      <div className="w-full h-full flex items-center justify-center">
+        {isVideo && <Film size={14} className="text-white/30" />}
+      </div>
+    );
+  }
+  return <img src={url} loading="lazy" className={`w-full h-full object-cover ${className}`} />;
+};
+
+export default MediaThumb;
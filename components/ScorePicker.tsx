@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Music, Play, Square, Loader2, Upload, Trash2 } from 'lucide-react';
+import { MusicTrack, PackScore, ScoreMode } from '../types';
+import { loadScore } from '../services/musicLibrary';
+
+interface Props {
+  /** Name of the Cut Pack the score is chosen for. */
+  packName: string;
+  /** Library tracks followed by the user's uploads. */
+  tracks: MusicTrack[];
+  value: PackScore;
+  onChange: (score: PackScore) => void;
+  /** Stores an audio file as a new track; rejects when it cannot be played. */
+  onUpload: (file: File) => Promise<MusicTrack>;
+  onDelete: (id: string) => void;
+}
+
+const PREVIEW_SECONDS = 8;
+const MODES: ScoreMode[] = ['loop', 'crossfade'];
+
+const ScorePicker: React.FC<Props> = ({ packName, tracks, value, onChange, onUpload, onDelete }) => {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [playing, setPlaying] = useState<string | null>(null);
+  const [loading, setLoading] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const stop = () => {
+    try { sourceRef.current?.stop(); } catch (e) {}
+    sourceRef.current = null;
+    setPlaying(null);
+  };
+
+  useEffect(() => () => {
+    try { sourceRef.current?.stop(); } catch (e) {}
+    ctxRef.current?.close();
+  }, []);
+
+  const preview = async (id: string) => {
+    if (playing === id) return stop();
+    stop();
+    setLoading(id);
+    try {
+      if (!ctxRef.current) {
+        const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+        ctxRef.current = new AudioContextClass();
+      }
+      const ctx = ctxRef.current;
+      const buffer = await loadScore(id);
+      if (!buffer) throw new Error(`Track ${id} is missing`);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      const fade = ctx.createGain();
+      fade.gain.setValueAtTime(1, ctx.currentTime + PREVIEW_SECONDS - 1);
+      fade.gain.linearRampToValueAtTime(0, ctx.currentTime + PREVIEW_SECONDS);
+      source.connect(fade).connect(ctx.destination);
+      source.onended = () => {
+        if (sourceRef.current === source) stop();
+      };
+      source.start(ctx.currentTime, 0, PREVIEW_SECONDS);
+      sourceRef.current = source;
+      setPlaying(id);
+    } catch (e) {
+      console.error(e);
+      alert("This track could not be played.");
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const track = await onUpload(file);
+      onChange({ ...value, trackId: track.id });
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof Error ? e.message : "Music could not be added.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const row = (id: string | null, name: string, detail?: string, removable?: boolean) => (
+    <div
+      key={id ?? 'none'}
+      className={`flex items-center gap-2 pl-4 pr-1 py-1 rounded-full border transition-all ${value.trackId === id ? 'bg-white text-black border-white' : 'border-white/10 text-white/40 hover:border-white/20'}`}
+    >
+      <button onClick={() => onChange({ ...value, trackId: id })} className="flex-1 min-w-0 text-left text-[9px] font-bold tracking-widest uppercase truncate">
+        {name}{detail && <span className="opacity-50"> · {detail}</span>}
+      </button>
+      {id && (
+        <button onClick={() => preview(id)} disabled={!!loading && loading !== id} title={`Preview ${name}`} className="p-2 rounded-full disabled:opacity-30">
+          {loading === id ? <Loader2 size={10} className="animate-spin" /> : playing === id ? <Square size={10} /> : <Play size={10} />}
+        </button>
+      )}
+      {id && removable && (
+        <button
+          onClick={() => { if (playing === id) stop(); onDelete(id); }}
+          title={`Remove ${name}`}
+          className="p-2 rounded-full opacity-60 hover:opacity-100"
+        >
+          <Trash2 size={10} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30 flex items-center gap-2"><Music size={10} /> Score · {packName}</label>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          className="flex items-center gap-1 text-[9px] font-bold tracking-widest uppercase text-white/30 hover:text-white disabled:opacity-30"
+        >
+          {uploading ? <Loader2 size={10} className="animate-spin" /> : <Upload size={10} />} Upload
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept="audio/*"
+          onChange={(e) => { upload(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+      <div className="space-y-2">
+        {row(null, 'No music')}
+        {tracks.map(t => row(t.id, t.name, t.mood ?? (t.uploaded ? 'Upload' : undefined), t.uploaded))}
+      </div>
+      <div className="flex gap-2 p-2 bg-black/40 rounded-full border border-white/5">
+        {MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...value, mode })}
+            disabled={!value.trackId}
+            title={mode === 'loop' ? 'One continuous bed under the whole film' : 'Fade to a new section of the track at every beat'}
+            className={`flex-1 py-3 text-[9px] font-bold rounded-full transition-all disabled:opacity-30 ${value.mode === mode ? 'bg-white text-black shadow-xl' : 'text-white/30 hover:text-white'}`}
+          >
+            {mode.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScorePicker;
@@ -4,42 +4,113 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef, useState } from 'react';
-import { RecallStory, MediaItem, StoryBeat } from '../types';
-import { X, Volume2, VolumeX, ArrowDown, MapPin, Maximize2, Globe, Film } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RecallStory, MediaItem, PackScore } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { STORY_ARCS, findArcSlot } from '../services/storyArcs';
+import { NARRATOR_SPEAKER, VISUAL_GRADES } from '../services/cutPacks';
+import { LOW_LOCATION_CONFIDENCE } from '../services/locationResolver';
+import { DEFAULT_LANGUAGE } from '../services/languages';
+import { emphasisParts } from '../services/speechPacing';
+import { SubtitleFormat, beatCues, storyCues, toSrt, toWebVtt } from '../services/subtitles';
+import { ScoreMixer, createScoreMixer } from '../services/scoreMixer';
+import { loadScore } from '../services/musicLibrary';
+import BeatDirector from './BeatDirector';
+import TrackPicker from './TrackPicker';
+import SourcesOverlay from './SourcesOverlay';
+import { X, Volume2, VolumeX, ArrowDown, MapPin, Maximize2, Globe, Film, Pencil, Loader2, AlertTriangle, BookOpen, Captions, CaptionsOff, SlidersHorizontal } from 'lucide-react';
 
 interface Props {
   story: RecallStory;
   media: MediaItem[];
   onExit: () => void;
+  /** Rewrites and re-voices one beat (by position) from a director's note. */
+  onRegenerateBeat?: (position: number, note: string) => Promise<void>;
+  onEdit?: () => void;
+  /** Accepts a low-confidence beat location as correct. */
+  onConfirmLocation?: (position: number) => void;
+  /** True while later beats or their narration are still being rendered. */
+  isBackgroundGenerating?: boolean;
+  /** Translates the story into another language as an extra narration track. */
+  onAddTrack?: (language: string) => Promise<void>;
+  /** Music bed under the narration, from the story's Cut Pack. */
+  score?: PackScore;
 }
 
-const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
+const ScrollyStory: React.FC<Props> = ({ story, media, onExit, onRegenerateBeat, onEdit, onConfirmLocation, onAddTrack, score, isBackgroundGenerating = false }) => {
   const [muted, setMuted] = useState(false);
+  const mutedRef = useRef(false);
+  const [captionsOn, setCaptionsOn] = useState(true);
+  // When the active beat's narration started, muted or not; captions follow this clock.
+  const [clock, setClock] = useState<{ position: number; startedAt: number } | null>(null);
+  const [captionIndex, setCaptionIndex] = useState(-1);
   const [activeBeatIndex, setActiveBeatIndex] = useState(0);
   const [scrollProgress, setScrollProgress] = useState(0);
+  const [showSources, setShowSources] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const mixerRef = useRef<ScoreMixer | null>(null);
+  const [voiceVolume, setVoiceVolume] = useState(1);
+  const [musicVolume, setMusicVolume] = useState(0.6);
+  const [showMixer, setShowMixer] = useState(false);
   const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
+  // Narration and subtitles can be in different languages; a track dropped by an edit falls back to the story's own.
+  const ownLanguage = story.language ?? DEFAULT_LANGUAGE;
+  const languages = [ownLanguage, ...(story.tracks ?? []).map(t => t.language)];
+  const [audioChoice, setAudioChoice] = useState(ownLanguage);
+  const [subtitleChoice, setSubtitleChoice] = useState(ownLanguage);
+  const audioLanguage = languages.includes(audioChoice) ? audioChoice : ownLanguage;
+  const subtitleLanguage = languages.includes(subtitleChoice) ? subtitleChoice : ownLanguage;
+  const narrationAt = (position: number, language: string): { text: string; audioBuffer: AudioBuffer | null } | undefined => {
+    const track = story.tracks?.find(t => t.language === language);
+    return track ? track.lines[position] : story.beats[position];
+  };
+
   useEffect(() => {
     const AudioContextClass = window.AudioContext || window.webkitAudioContext;
     audioContextRef.current = new AudioContextClass();
+    mixerRef.current = createScoreMixer(audioContextRef.current);
     return () => {
+        mixerRef.current?.dispose();
         audioContextRef.current?.close();
     };
   }, []);
 
-  const playBeatAudio = (beat: StoryBeat) => {
-    if (!audioContextRef.current || muted || !beat.audioBuffer) return;
+  useEffect(() => {
+    const trackId = score?.trackId;
+    if (!trackId) {
+      mixerRef.current?.setScore(undefined, 'loop');
+      return;
+    }
+    let cancelled = false;
+    loadScore(trackId)
+      .then(buffer => { if (!cancelled) mixerRef.current?.setScore(buffer, score.mode); })
+      .catch(e => console.error("Score could not be loaded", e));
+    return () => { cancelled = true; };
+  }, [score?.trackId, score?.mode]);
+
+  useEffect(() => { mixerRef.current?.enterBeat(activeBeatIndex); }, [activeBeatIndex]);
+  useEffect(() => { mixerRef.current?.setVoiceVolume(voiceVolume); }, [voiceVolume]);
+  useEffect(() => { mixerRef.current?.setMusicVolume(musicVolume); }, [musicVolume]);
+
+  const playBeatAudio = (audio: AudioBuffer | null | undefined, position: number) => {
+    if (!audio) return;
+    setClock({ position, startedAt: performance.now() });
+    if (!audioContextRef.current || mutedRef.current) return;
 
     if (currentSourceRef.current) {
         try { currentSourceRef.current.stop(); } catch (e) {}
     }
 
     const source = audioContextRef.current.createBufferSource();
-    source.buffer = beat.audioBuffer;
-    source.connect(audioContextRef.current.destination);
+    source.buffer = audio;
+    source.connect(mixerRef.current?.voice ?? audioContextRef.current.destination);
+    // The score dips while this beat speaks; a beat cut short by the next one leaves it dipped.
+    source.onended = () => {
+        if (currentSourceRef.current === source) mixerRef.current?.release();
+    };
+    mixerRef.current?.duck();
     source.start();
     currentSourceRef.current = source;
   };
@@ -54,14 +125,124 @@ const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
     const windowHeight = window.innerHeight;
     const newIndex = Math.round(scrollTop / windowHeight);
     
-    if (newIndex !== activeBeatIndex && newIndex < story.beats.length) {
+    // While rendering, the slot after the last beat is a placeholder for the next one.
+    const lastIndex = isBackgroundGenerating ? story.beats.length : story.beats.length - 1;
+    if (newIndex !== activeBeatIndex && newIndex <= lastIndex) {
         setActiveBeatIndex(newIndex);
-        playBeatAudio(story.beats[newIndex]);
+        const audio = narrationAt(newIndex, audioLanguage)?.audioBuffer;
+        if (audio) {
+            playBeatAudio(audio, newIndex);
+        } else {
+            try { currentSourceRef.current?.stop(); } catch (e) {}
+            pendingAudioRef.current = newIndex;
+        }
     }
   };
 
+  // Edits can remove beats under the current position.
+  useEffect(() => {
+    if (isBackgroundGenerating) return;
+    setActiveBeatIndex(i => Math.min(i, Math.max(0, story.beats.length - 1)));
+  }, [story.beats.length, isBackgroundGenerating]);
+
   const activeBeat = story.beats[activeBeatIndex];
+  const activeAudio = narrationAt(activeBeatIndex, audioLanguage)?.audioBuffer;
+  const isBuffering = isBackgroundGenerating && !activeAudio;
+  const locationDoubtful = (activeBeat?.locationConfidence ?? 1) < LOW_LOCATION_CONFIDENCE;
+
+  // Plays a beat once its audio arrives: the opening beat, a beat that was still
+  // rendering when scrolled to, a rewrite from the director or a switch of language.
+  const pendingAudioRef = useRef<number | null>(0);
+  useEffect(() => {
+    if (pendingAudioRef.current !== activeBeatIndex || !activeAudio) return;
+    pendingAudioRef.current = null;
+    playBeatAudio(activeAudio, activeBeatIndex);
+  }, [activeAudio, activeBeatIndex]);
+
+  const title = story.tracks?.find(t => t.language === subtitleLanguage)?.title ?? story.title;
+
+  // Captions: cues in the subtitle language, timed to the narration being played. When both
+  // are the same language, cue changes are aligned to the pauses in the audio.
+  const subtitleText = narrationAt(activeBeatIndex, subtitleLanguage)?.text ?? activeBeat?.text ?? '';
+  const activeCues = useMemo(() => activeAudio ? beatCues(
+    subtitleText,
+    activeAudio.duration,
+    { language: subtitleLanguage, pace: story.pace },
+    subtitleLanguage === audioLanguage ? { samples: activeAudio.getChannelData(0), sampleRate: activeAudio.sampleRate } : undefined
+  ) : [], [subtitleText, activeAudio, subtitleLanguage, audioLanguage, story.pace]);
+
+  useEffect(() => {
+    setCaptionIndex(-1);
+    if (!clock || clock.position !== activeBeatIndex || activeCues.length === 0) return;
+    let frame = 0;
+    const tick = () => {
+      const elapsed = (performance.now() - clock.startedAt) / 1000;
+      setCaptionIndex(activeCues.findIndex(c => elapsed >= c.start && elapsed < c.end));
+      if (elapsed < activeCues[activeCues.length - 1].end) frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [clock, activeBeatIndex, activeCues]);
+  const caption = captionsOn ? activeCues[captionIndex] : undefined;
+
+  const toggleMute = () => {
+    const next = !muted;
+    mutedRef.current = next;
+    setMuted(next);
+    if (next) {
+      try { currentSourceRef.current?.stop(); } catch (e) {}
+    } else {
+      playBeatAudio(activeAudio, activeBeatIndex);
+    }
+  };
+
+  // Subtitles for the whole film, as if its beats were played back to back.
+  const exportSubtitles = (format: SubtitleFormat) => {
+    const cues = storyCues(
+      story.beats.map((b, i) => ({ text: narrationAt(i, subtitleLanguage)?.text ?? b.text, audio: narrationAt(i, audioLanguage)?.audioBuffer })),
+      { language: subtitleLanguage, pace: story.pace },
+      subtitleLanguage === audioLanguage
+    );
+    const blob = format === 'vtt'
+      ? new Blob([toWebVtt(cues)], { type: 'text/vtt' })
+      : new Blob([toSrt(cues)], { type: 'application/x-subrip' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${title.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'premiere'}.${subtitleLanguage}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const switchNarration = (language: string) => {
+    if (language === audioLanguage) return;
+    try { currentSourceRef.current?.stop(); } catch (e) {}
+    pendingAudioRef.current = activeBeatIndex;
+    setAudioChoice(language);
+  };
+
+  const directBeat = async (position: number, note: string) => {
+    pendingAudioRef.current = position;
+    try {
+      await onRegenerateBeat!(position, note);
+    } catch (e) {
+      pendingAudioRef.current = null;
+      throw e;
+    }
+  };
+  const totalBeats = isBackgroundGenerating ? Math.max(story.totalBeatsEstimate ?? 0, story.beats.length + 1) : story.beats.length;
   const activeMedia = media.find(m => m.id === activeBeat?.associatedMediaId) || media[0];
+  const activeMediaUrl = useMediaUrl(activeMedia?.id, 'original');
+  // The Cut Pack's grade, softened so the narration stays legible over it.
+  const gradeFilter = `${VISUAL_GRADES[story.grade ?? 'Natural']} blur(4px)`;
+  const arc = STORY_ARCS.find(a => a.id === story.arcId);
+  const slotLabel = (slotId?: string) => {
+    const slot = arc && findArcSlot(arc, slotId);
+    return slot ? `${slot.act} / ${slot.role}` : undefined;
+  };
+  // Cast members quoted in a beat, credited next to its label.
+  const castIn = (lines?: { speaker: string }[]) =>
+    [...new Set((lines ?? []).map(l => l.speaker).filter(s => s !== NARRATOR_SPEAKER))].join(' & ');
 
   return (
     <div className="fixed inset-0 bg-black text-white z-50 overflow-hidden flex flex-col md:flex-row font-sans animate-fade-in">
@@ -71,8 +252,16 @@ const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
         <div className="absolute inset-0 bg-black/60 z-10 transition-opacity duration-1000"></div>
         
         <div className="absolute inset-0 transform transition-transform duration-[2000ms] ease-out scale-110" style={{ transform: `scale(${1.1 + scrollProgress * 0.1})` }}>
-            {activeMedia ? (
-                <img src={activeMedia.url} className="w-full h-full object-cover filter brightness-[0.7] contrast-[1.1] blur-sm" alt="Scene" />
+            {activeMedia && activeMediaUrl && activeMedia.mimeType.startsWith('video') ? (
+                <video
+                    key={`${activeMedia.id}-${activeBeat?.mediaTime ?? 0}`}
+                    src={activeBeat?.mediaTime !== undefined ? `${activeMediaUrl}#t=${activeBeat.mediaTime}` : activeMediaUrl}
+                    autoPlay muted loop playsInline
+                    className="w-full h-full object-cover"
+                    style={{ filter: gradeFilter }}
+                />
+            ) : activeMediaUrl ? (
+                <img src={activeMediaUrl} className="w-full h-full object-cover" style={{ filter: gradeFilter }} alt="Scene" />
             ) : (
                 <div className="w-full h-full bg-zinc-900 flex items-center justify-center">
                     <Globe size={100} className="text-white/10 animate-pulse" />
@@ -97,25 +286,126 @@ const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
                 <h3 className="text-[10px] font-bold tracking-[0.4em] text-white/30 uppercase mb-1 flex items-center gap-2">
                     <Film size={12}/> Reelchemy Studio
                 </h3>
-                <h4 className="font-serif italic text-2xl text-gradient">{story.title}</h4>
+                <h4 className="font-serif italic text-2xl text-gradient">{title}</h4>
+            </div>
+            {onEdit && !isBackgroundGenerating && (
+                <button
+                    onClick={() => { try { currentSourceRef.current?.stop(); } catch (e) {} onEdit(); }}
+                    className="flex items-center gap-2 px-5 py-3 bg-white/5 hover:bg-white hover:text-black border border-white/10 rounded-full backdrop-blur-3xl text-[9px] font-bold tracking-[0.3em] uppercase transition-all"
+                >
+                    <Pencil size={12} /> Edit Cut
+                </button>
+            )}
+            {!isBackgroundGenerating && (
+                <TrackPicker
+                    available={languages}
+                    audio={audioLanguage}
+                    subtitles={subtitleLanguage}
+                    onAudio={switchNarration}
+                    onSubtitles={setSubtitleChoice}
+                    onAdd={onAddTrack}
+                    onExportSubtitles={exportSubtitles}
+                />
+            )}
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setCaptionsOn(!captionsOn)}
+                    title={captionsOn ? 'Hide captions' : 'Show captions'}
+                    className="w-12 h-12 bg-white/5 hover:bg-white text-white hover:text-black backdrop-blur-3xl rounded-full transition-all flex items-center justify-center border border-white/10"
+                >
+                    {captionsOn ? <Captions size={16} /> : <CaptionsOff size={16} />}
+                </button>
+                <button
+                    onClick={toggleMute}
+                    title={muted ? 'Unmute narration' : 'Mute narration'}
+                    className="w-12 h-12 bg-white/5 hover:bg-white text-white hover:text-black backdrop-blur-3xl rounded-full transition-all flex items-center justify-center border border-white/10"
+                >
+                    {muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+                </button>
+                <div className="relative">
+                    <button
+                        onClick={() => setShowMixer(!showMixer)}
+                        title="Voice and music levels"
+                        className="w-12 h-12 bg-white/5 hover:bg-white text-white hover:text-black backdrop-blur-3xl rounded-full transition-all flex items-center justify-center border border-white/10"
+                    >
+                        <SlidersHorizontal size={16} />
+                    </button>
+                    {showMixer && (
+                        <div className="absolute top-full left-0 mt-3 w-64 p-6 bg-black/80 border border-white/10 rounded-[2rem] backdrop-blur-3xl space-y-5 animate-fade-in">
+                            {([['Voice', voiceVolume, setVoiceVolume], ['Music', musicVolume, setMusicVolume]] as const).map(([label, value, set]) => (
+                                <label key={label} className="block space-y-2">
+                                    <span className="flex justify-between text-[9px] font-bold tracking-widest uppercase text-white/40">
+                                        {label} <span>{Math.round(value * 100)}</span>
+                                    </span>
+                                    <input
+                                        type="range" min={0} max={1} step={0.05} value={value}
+                                        onChange={(e) => set(Number(e.target.value))}
+                                        disabled={label === 'Music' && !score?.trackId}
+                                        className="w-full accent-white disabled:opacity-30"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
             </div>
          </div>
 
          {activeBeat?.location && (
              <div className="flex flex-col items-end gap-1">
-                 <div className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 rounded-full backdrop-blur-3xl animate-fade-in">
-                    <MapPin size={12} className="text-white/40" />
-                    <span className="text-[10px] font-bold tracking-widest">{activeBeat.location.name.toUpperCase()}</span>
+                 <div className={`flex items-center gap-2 px-4 py-2 bg-white/5 border rounded-full backdrop-blur-3xl animate-fade-in ${locationDoubtful ? 'border-amber-400/40' : 'border-white/10'}`}>
+                    <MapPin size={12} className={locationDoubtful ? 'text-amber-400/80' : 'text-white/40'} />
+                    <span className="text-[10px] font-bold tracking-widest">{activeBeat.location.name.toUpperCase()}{locationDoubtful ? '?' : ''}</span>
                  </div>
+                 {locationDoubtful && (
+                     <button
+                        onClick={() => onConfirmLocation?.(activeBeatIndex)}
+                        disabled={!onConfirmLocation || isBackgroundGenerating}
+                        title="This place was a guess. Confirm it, or pick another in Edit Cut."
+                        className="flex items-center gap-1 text-[8px] font-bold tracking-widest uppercase text-amber-400/70 hover:text-amber-300 disabled:hover:text-amber-400/70"
+                     >
+                        <AlertTriangle size={10} /> {onConfirmLocation && !isBackgroundGenerating ? 'Confirm place' : 'Unconfirmed place'}
+                     </button>
+                 )}
              </div>
          )}
       </div>
 
+      {/* SOURCES */}
+      {activeBeat?.sources && activeBeat.sources.length > 0 && (
+          <button
+              onClick={() => setShowSources(true)}
+              className="absolute bottom-10 left-10 z-50 flex items-center gap-2 px-5 py-3 bg-white/5 hover:bg-white hover:text-black border border-white/10 rounded-full backdrop-blur-3xl text-[9px] font-bold tracking-[0.3em] uppercase transition-all animate-fade-in"
+          >
+              <BookOpen size={12} /> {activeBeat.sources.length} {activeBeat.sources.length === 1 ? 'Source' : 'Sources'}
+          </button>
+      )}
+      {showSources && activeBeat?.sources && (
+          <SourcesOverlay sources={activeBeat.sources} label={`Beat ${activeBeatIndex + 1}${activeBeat.location ? ` · ${activeBeat.location.name}` : ''}`} onClose={() => setShowSources(false)} />
+      )}
+
+      {/* CAPTIONS */}
+      {caption && (
+          <div className="absolute bottom-28 inset-x-0 z-[65] flex justify-center px-10 pointer-events-none">
+              <p key={caption.start} className="max-w-3xl px-6 py-3 bg-black/70 rounded-2xl text-center text-lg md:text-2xl leading-snug text-white">
+                  {emphasisParts(caption.text).map((part, i) =>
+                    part.emphasis ? <em key={i}>{part.text}</em> : <React.Fragment key={i}>{part.text}</React.Fragment>
+                  )}
+              </p>
+          </div>
+      )}
+
       {/* STORY PROGRESS */}
       <div className="absolute bottom-10 right-10 z-50 flex items-center gap-4 group">
+          {(isBuffering || isBackgroundGenerating) && (
+              <div className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 rounded-full backdrop-blur-3xl text-[9px] font-bold tracking-widest uppercase text-white/50 animate-fade-in">
+                  <Loader2 size={12} className="animate-spin" />
+                  {isBuffering ? 'Buffering narration...' : `Rendering ${story.beats.length} / ${totalBeats}`}
+              </div>
+          )}
           <div className="text-right">
               <div className="text-[10px] font-bold tracking-[0.2em] text-white/30 uppercase">Beat</div>
-              <div className="text-xl font-mono font-light">{activeBeatIndex + 1} / {story.beats.length}</div>
+              <div className="text-xl font-mono font-light">{activeBeatIndex + 1} / {totalBeats}</div>
           </div>
           <div className="relative w-16 h-16">
               <svg className="w-full h-full transform -rotate-90">
@@ -137,14 +427,22 @@ const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
             <div className={`max-w-4xl space-y-12 transition-all duration-1000 ${activeBeatIndex === idx ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'}`}>
                <div className="flex items-center justify-center gap-6">
                   <div className="w-12 h-[1px] bg-white/10"></div>
-                  <span className="text-[10px] font-bold tracking-[0.5em] text-white/30 uppercase">Beat {idx + 1}</span>
+                  <span className="text-[10px] font-bold tracking-[0.5em] text-white/30 uppercase">
+                    Beat {idx + 1}{slotLabel(beat.slotId) ? ` · ${slotLabel(beat.slotId)}` : ''}{castIn(beat.lines) ? ` · with ${castIn(beat.lines)}` : ''}
+                  </span>
                   <div className="w-12 h-[1px] bg-white/10"></div>
                </div>
                
                <p className="text-4xl md:text-7xl font-serif leading-[1.1] tracking-tight text-white drop-shadow-[0_5px_30px_rgba(0,0,0,0.5)]">
-                  {beat.text}
+                  {emphasisParts(narrationAt(idx, subtitleLanguage)?.text ?? beat.text).map((part, i) =>
+                    part.emphasis ? <em key={i}>{part.text}</em> : <React.Fragment key={i}>{part.text}</React.Fragment>
+                  )}
                </p>
 
+               {onRegenerateBeat && !isBackgroundGenerating && activeBeatIndex === idx && (
+                   <BeatDirector onDirect={(note) => directBeat(idx, note)} />
+               )}
+
                {idx === 0 && (
                    <div className="pt-20 flex flex-col items-center gap-4 text-white/20 animate-bounce">
                       <span className="text-[10px] uppercase tracking-[0.3em] font-bold">Scroll to navigate the memory</span>
@@ -155,12 +453,28 @@ const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
           </div>
         ))}
 
+        {/* NEXT BEAT, STILL RENDERING */}
+        {isBackgroundGenerating && (
+          <div className="h-screen w-full snap-start flex flex-col items-center justify-center p-12 text-center">
+            <div className="space-y-8 max-w-md w-full">
+              <Loader2 size={28} className="mx-auto animate-spin text-white/30" />
+              <div className="text-[10px] font-bold tracking-[0.5em] text-white/30 uppercase">
+                Rendering beat {story.beats.length + 1}
+              </div>
+              <div className="h-[2px] w-full bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-white transition-all duration-700" style={{ width: `${(story.beats.length / totalBeats) * 100}%` }} />
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* FINALE SCREEN */}
+        {!isBackgroundGenerating && (
         <div className="h-screen w-full snap-start flex flex-col items-center justify-center bg-black/95 backdrop-blur-3xl">
             <div className="text-center space-y-12 max-w-2xl px-6 animate-fade-in-up">
                 <div className="space-y-4">
                     <div className="text-white/30 font-serif italic text-3xl">Fin.</div>
-                    <h4 className="text-7xl md:text-9xl font-serif text-gradient leading-none">{story.title}</h4>
+                    <h4 className="text-7xl md:text-9xl font-serif text-gradient leading-none">{title}</h4>
                 </div>
                 
                 <div className="h-[1px] w-40 bg-white/10 mx-auto"></div>
@@ -178,6 +492,7 @@ const ScrollyStory: React.FC<Props> = ({ story, media, onExit }) => {
                 </div>
             </div>
         </div>
+        )}
       </div>
 
       {/* CINEMATIC LETTERBOXING */}
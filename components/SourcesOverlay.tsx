@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { BookOpen, ExternalLink, X } from 'lucide-react';
+import { BeatSource } from '../types';
+
+interface Props {
+  sources: BeatSource[];
+  /** Shown as the heading, e.g. "Beat 3". */
+  label: string;
+  onClose: () => void;
+}
+
+const hostOf = (uri: string) => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+const SourcesOverlay: React.FC<Props> = ({ sources, label, onClose }) => (
+  <div className="fixed inset-0 z-[70] bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 animate-fade-in" onClick={onClose}>
+    <div className="glass w-full max-w-2xl max-h-[75vh] overflow-y-auto no-scrollbar rounded-[3rem] border border-white/10 p-10 space-y-8" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h3 className="text-[10px] font-bold tracking-[0.4em] text-white/30 uppercase flex items-center gap-2"><BookOpen size={12} /> Sources</h3>
+          <h4 className="font-serif italic text-2xl">{label}</h4>
+        </div>
+        <button onClick={onClose} className="p-3 rounded-full border border-white/10 text-white/40 hover:text-white"><X size={16} /></button>
+      </div>
+      <p className="text-[10px] text-white/30 leading-relaxed">
+        Facts in this beat were grounded with web search. Each source is listed with the narration it supports.
+      </p>
+      <ul className="space-y-6">
+        {sources.map(source => (
+          <li key={source.uri} className="space-y-3 border-t border-white/5 pt-6">
+            <a href={source.uri} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm font-medium text-white/80 hover:text-white">
+              <ExternalLink size={12} className="shrink-0 text-white/30" />
+              <span className="truncate">{source.title || hostOf(source.uri)}</span>
+            </a>
+            {source.snippets.map(snippet => (
+              <blockquote key={snippet} className="pl-4 border-l border-white/10 font-serif italic text-white/50 text-sm leading-relaxed">
+                “{snippet}”
+              </blockquote>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  </div>
+);
+
+export default SourcesOverlay;
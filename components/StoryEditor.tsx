@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Undo2, Redo2, GripVertical, Scissors, Merge, MapPin, Image as ImageIcon, Loader2, Mic, AlertTriangle } from 'lucide-react';
+import { LocationPoint, MediaItem, RecallStory, StoryBeat } from '../types';
+import { useHistory } from '../hooks/useHistory';
+import { beatsNeedingAudio, mergeWithNext, moveBeat, setBeatLocation, setBeatMedia, splitBeat, updateBeatText } from '../services/storyEditing';
+import { LOW_LOCATION_CONFIDENCE } from '../services/locationResolver';
+import MediaThumb from './MediaThumb';
+
+interface Props {
+  story: RecallStory;
+  media: MediaItem[];
+  itinerary: LocationPoint[];
+  /** Re-voices beats without audio and commits the edited story. */
+  onSave: (story: RecallStory) => Promise<void>;
+  onCancel: () => void;
+}
+
+const BEAT_DRAG_TYPE = 'application/x-reelchemy-beat';
+
+// Keeps keystrokes local so a whole text edit is one undo step, committed on blur.
+const BeatText: React.FC<{ beat: StoryBeat; onCommit: (text: string) => void; textareaRef: (el: HTMLTextAreaElement | null) => void }> = ({ beat, onCommit, textareaRef }) => {
+  const [draft, setDraft] = useState(beat.text);
+  useEffect(() => setDraft(beat.text), [beat.text]);
+  return (
+    <textarea
+      ref={textareaRef}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft)}
+      title="Wrap a word in *asterisks* to have the narrator stress it"
+      className="w-full min-h-[6rem] bg-transparent font-serif text-xl leading-snug text-white/90 resize-y outline-none"
+    />
+  );
+};
+
+const StoryEditor: React.FC<Props> = ({ story: initial, media, itinerary, onSave, onCancel }) => {
+  const history = useHistory(initial);
+  const story = history.present;
+  const [pickingMedia, setPickingMedia] = useState<number | null>(null);
+  const [dragOver, setDragOver] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const textareas = useRef<(HTMLTextAreaElement | null)[]>([]);
+  const pending = beatsNeedingAudio(story).length;
+  const heroes = media.filter(m => !m.stackId || m.stackId === m.id);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+      // Inside a textarea the browser's own undo handles the text being typed.
+      if (document.activeElement instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      if (e.shiftKey) history.redo(); else history.undo();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [history.undo, history.redo]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(story);
+    } catch (e) {
+      console.error(e);
+      alert("Narration could not be re-voiced. Your edits are still here.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black text-white overflow-y-auto no-scrollbar animate-fade-in">
+      <header className="sticky top-0 z-10 bg-black/80 backdrop-blur-xl border-b border-white/5 px-10 py-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-[10px] font-bold tracking-[0.4em] text-white/30 uppercase">Editing Cut</h3>
+          <h4 className="font-serif italic text-2xl text-gradient">{story.title}</h4>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)" className="p-3 rounded-full border border-white/10 text-white/60 hover:text-white disabled:opacity-20"><Undo2 size={16} /></button>
+          <button onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" className="p-3 rounded-full border border-white/10 text-white/60 hover:text-white disabled:opacity-20"><Redo2 size={16} /></button>
+          <button onClick={onCancel} disabled={saving} className="px-6 py-3 rounded-full text-[10px] font-bold tracking-widest text-white/40 hover:text-white">DISCARD</button>
+          <button onClick={save} disabled={saving || story.beats.length === 0} className="px-8 py-3 rounded-full bg-white text-black text-[10px] font-bold tracking-widest flex items-center gap-2 disabled:opacity-30">
+            {saving && <Loader2 size={12} className="animate-spin" />}
+            {pending > 0 ? `SAVE & RE-VOICE ${pending}` : 'SAVE CUT'}
+          </button>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto px-6 py-12 space-y-4">
+        {story.beats.map((beat, position) => (
+          <div
+            key={position}
+            onDragOver={(e) => { if (e.dataTransfer.types.includes(BEAT_DRAG_TYPE)) { e.preventDefault(); setDragOver(position); } }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => {
+              const from = Number(e.dataTransfer.getData(BEAT_DRAG_TYPE));
+              setDragOver(null);
+              if (!Number.isNaN(from)) history.set(s => moveBeat(s, from, position));
+            }}
+            className={`glass rounded-[2rem] border p-6 flex gap-5 transition-all ${dragOver === position ? 'border-white/50' : 'border-white/5'}`}
+          >
+            <div
+              draggable
+              onDragStart={(e) => { e.dataTransfer.setData(BEAT_DRAG_TYPE, String(position)); e.dataTransfer.effectAllowed = 'move'; }}
+              title="Drag to reorder"
+              className="flex flex-col items-center gap-2 text-white/20 hover:text-white cursor-grab active:cursor-grabbing"
+            >
+              <GripVertical size={18} />
+              <span className="text-[10px] font-mono">{position + 1}</span>
+            </div>
+
+            <div className="flex-1 space-y-4 min-w-0">
+              <BeatText
+                beat={beat}
+                textareaRef={(el) => { textareas.current[position] = el; }}
+                onCommit={(text) => history.set(s => updateBeatText(s, position, text))}
+              />
+              <div className="flex flex-wrap items-center gap-3 text-[9px] font-bold tracking-widest uppercase">
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    const el = textareas.current[position];
+                    // Commit any in-progress typing first so the offset matches the stored text.
+                    if (el && el.value !== beat.text) history.set(s => updateBeatText(s, position, el.value));
+                    history.set(s => splitBeat(s, position, el?.selectionStart ?? Math.floor(beat.text.length / 2)));
+                  }}
+                  title="Split at the cursor"
+                  className="flex items-center gap-1 text-white/40 hover:text-white"
+                >
+                  <Scissors size={10} /> Split
+                </button>
+                {position < story.beats.length - 1 && (
+                  <button onClick={() => history.set(s => mergeWithNext(s, position))} title="Merge with the next beat" className="flex items-center gap-1 text-white/40 hover:text-white">
+                    <Merge size={10} /> Merge
+                  </button>
+                )}
+                <label className="flex items-center gap-1 text-white/40">
+                  <MapPin size={10} />
+                  <select
+                    value={beat.location ? itinerary.findIndex(l => l.name === beat.location!.name) : -1}
+                    onChange={(e) => history.set(s => setBeatLocation(s, position, itinerary[Number(e.target.value)]))}
+                    className="bg-transparent outline-none text-white/60 uppercase max-w-[12rem]"
+                  >
+                    <option value={-1} className="bg-black">{beat.location && !itinerary.some(l => l.name === beat.location!.name) ? beat.location.name : 'No location'}</option>
+                    {itinerary.map((loc, i) => <option key={`${loc.name}-${i}`} value={i} className="bg-black">{loc.name}</option>)}
+                  </select>
+                </label>
+                {beat.location && (beat.locationConfidence ?? 1) < LOW_LOCATION_CONFIDENCE && (
+                  <button onClick={() => history.set(s => setBeatLocation(s, position, beat.location))} title="This place was a guess. Confirm it or pick another." className="flex items-center gap-1 text-amber-400/80 hover:text-amber-300">
+                    <AlertTriangle size={10} /> Confirm place
+                  </button>
+                )}
+                {!beat.audioBuffer && <span className="flex items-center gap-1 text-amber-400/80"><Mic size={10} /> Needs voice</span>}
+              </div>
+            </div>
+
+            <button
+              onClick={() => setPickingMedia(pickingMedia === position ? null : position)}
+              title="Change fragment"
+              className="w-24 h-24 shrink-0 rounded-2xl overflow-hidden border border-white/10 bg-zinc-900 relative group"
+            >
+              {media.find(m => m.id === beat.associatedMediaId) ? (
+                <MediaThumb item={media.find(m => m.id === beat.associatedMediaId)!} />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-white/20"><ImageIcon size={20} /></div>
+              )}
+              <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 flex items-center justify-center text-[8px] font-bold tracking-widest transition-all">CHANGE</div>
+            </button>
+
+            {pickingMedia === position && (
+              <div className="fixed inset-x-0 bottom-0 z-20 bg-black/95 border-t border-white/10 p-6 animate-fade-in">
+                <div className="max-w-4xl mx-auto space-y-3">
+                  <div className="flex items-center justify-between text-[9px] font-bold tracking-widest uppercase text-white/40">
+                    <span>Fragment for beat {position + 1}</span>
+                    <button onClick={() => setPickingMedia(null)} className="hover:text-white">Close</button>
+                  </div>
+                  <div className="grid grid-cols-8 md:grid-cols-12 gap-2 max-h-[30vh] overflow-y-auto no-scrollbar">
+                    {heroes.map(m => (
+                      <button
+                        key={m.id}
+                        onClick={() => { history.set(s => setBeatMedia(s, position, m.id)); setPickingMedia(null); }}
+                        title={m.description}
+                        className={`aspect-square rounded-lg overflow-hidden border bg-zinc-900 ${m.id === beat.associatedMediaId ? 'border-white' : 'border-white/10 hover:border-white/40'}`}
+                      >
+                        <MediaThumb item={m} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StoryEditor;
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Languages, Loader2, AlertCircle, X, Download } from 'lucide-react';
+import { NARRATION_LANGUAGES, findLanguage } from '../services/languages';
+import { SubtitleFormat } from '../services/subtitles';
+
+interface Props {
+  /** Languages the story can be played in: its own plus every translated track. */
+  available: string[];
+  audio: string;
+  subtitles: string;
+  onAudio: (language: string) => void;
+  onSubtitles: (language: string) => void;
+  /** Translates and voices a new track; rejects when translation fails. */
+  onAdd?: (language: string) => Promise<void>;
+  /** Downloads timed subtitles in the chosen subtitle language. */
+  onExportSubtitles?: (format: SubtitleFormat) => void;
+}
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`px-4 py-2 rounded-full border text-[9px] font-bold tracking-widest uppercase transition-all ${active ? 'bg-white text-black border-white' : 'border-white/10 text-white/40 hover:text-white'}`}
+  >
+    {children}
+  </button>
+);
+
+const TrackPicker: React.FC<Props> = ({ available, audio, subtitles, onAudio, onSubtitles, onAdd, onExportSubtitles }) => {
+  const [open, setOpen] = useState(false);
+  const [adding, setAdding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const missing = NARRATION_LANGUAGES.filter(l => !available.includes(l.code));
+
+  const add = async (language: string) => {
+    if (!onAdd || adding) return;
+    setAdding(language);
+    setError(null);
+    try {
+      await onAdd(language);
+      onAudio(language);
+      onSubtitles(language);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Translation failed');
+    } finally {
+      setAdding(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-5 py-3 bg-white/5 hover:bg-white hover:text-black border border-white/10 rounded-full backdrop-blur-3xl text-[9px] font-bold tracking-[0.3em] uppercase transition-all"
+      >
+        <Languages size={12} /> {findLanguage(audio).native}
+        {subtitles !== audio && <span className="opacity-50">/ {findLanguage(subtitles).native}</span>}
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-3 w-80 p-6 bg-black/80 border border-white/10 rounded-[2rem] backdrop-blur-3xl space-y-5 animate-fade-in">
+          <div className="flex items-center justify-between text-[9px] font-bold tracking-[0.3em] uppercase text-white/30">
+            <span className="flex items-center gap-2"><Languages size={12} /> Languages</span>
+            <button onClick={() => setOpen(false)} className="hover:text-white"><X size={14} /></button>
+          </div>
+          <div className="space-y-2">
+            <div className="text-[9px] font-bold tracking-widest uppercase text-white/30">Narration</div>
+            <div className="flex flex-wrap gap-2">
+              {available.map(code => <Chip key={code} active={audio === code} onClick={() => onAudio(code)}>{findLanguage(code).native}</Chip>)}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="text-[9px] font-bold tracking-widest uppercase text-white/30">Subtitles</div>
+            <div className="flex flex-wrap gap-2">
+              {available.map(code => <Chip key={code} active={subtitles === code} onClick={() => onSubtitles(code)}>{findLanguage(code).native}</Chip>)}
+            </div>
+            {onExportSubtitles && (
+              <div className="flex items-center gap-4 pt-1 text-[9px] font-bold tracking-widest uppercase text-white/30">
+                <Download size={10} />
+                <button onClick={() => onExportSubtitles('vtt')} className="hover:text-white">WebVTT</button>
+                <button onClick={() => onExportSubtitles('srt')} className="hover:text-white">SRT</button>
+              </div>
+            )}
+          </div>
+          {onAdd && missing.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[9px] font-bold tracking-widest uppercase text-white/30">Add a track</div>
+              <select
+                value=""
+                disabled={!!adding}
+                onChange={(e) => add(e.target.value)}
+                className="w-full px-4 py-2 bg-transparent rounded-full border border-white/10 text-[9px] font-bold tracking-widest uppercase text-white/60 outline-none disabled:opacity-30"
+              >
+                <option value="" className="bg-black">{adding ? `Translating to ${findLanguage(adding).native}...` : 'Translate to...'}</option>
+                {missing.map(l => <option key={l.code} value={l.code} className="bg-black">{l.native}</option>)}
+              </select>
+              {adding && <div className="flex items-center gap-2 text-[9px] text-white/40"><Loader2 size={10} className="animate-spin" /> Translating and voicing every beat</div>}
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-[9px] font-bold tracking-widest uppercase">
+              <AlertCircle size={12} /> {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrackPicker;
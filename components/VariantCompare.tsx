@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Loader2, AlertCircle, MapPin, Check, Crown } from 'lucide-react';
+import { MediaItem, RecallStory, StoryVariant } from '../types';
+import { STORY_ARCS, findArcSlot } from '../services/storyArcs';
+import { composeFromVariants } from '../services/storyEditing';
+import { stripEmphasis } from '../services/speechPacing';
+import MediaThumb from './MediaThumb';
+
+interface Props {
+  variants: StoryVariant[];
+  media: MediaItem[];
+  /** Voices and premieres the composed cut. */
+  onChoose: (story: RecallStory) => void;
+  onCancel: () => void;
+}
+
+const VariantCompare: React.FC<Props> = ({ variants, media, onChoose, onCancel }) => {
+  const [base, setBase] = useState(0);
+  // Variant chosen for each beat row; null until the user cherry-picks, following the base until then.
+  const [picks, setPicks] = useState<(number | null)[] | null>(null);
+  const rows = Math.max(0, ...variants.map(v => v.story.beats.length));
+  const wholeCut = (v: number) => Array.from({ length: rows }, (_, row) => variants[v].story.beats[row] ? v : null);
+  const chosen = picks ?? wholeCut(base);
+  const writing = variants.some(v => v.status === 'writing');
+  const finalCount = chosen.filter(v => v !== null).length;
+
+  const pick = (row: number, v: number) => {
+    const next = [...chosen];
+    next[row] = next[row] === v ? null : v;
+    setPicks(next);
+  };
+
+  const slotLabel = (story: RecallStory, slotId?: string) => {
+    const arc = STORY_ARCS.find(a => a.id === story.arcId);
+    const slot = arc && findArcSlot(arc, slotId);
+    return slot ? `${slot.act} / ${slot.role}` : undefined;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black text-white overflow-auto no-scrollbar animate-fade-in">
+      <header className="sticky top-0 left-0 z-10 bg-black/80 backdrop-blur-xl border-b border-white/5 px-10 py-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-[10px] font-bold tracking-[0.4em] text-white/30 uppercase">Compare Cuts</h3>
+          <h4 className="font-serif italic text-2xl text-gradient">
+            {finalCount} beats · base: {variants[base]?.label}
+          </h4>
+        </div>
+        <div className="flex items-center gap-3">
+          {writing && <span className="flex items-center gap-2 text-[9px] font-bold tracking-widest uppercase text-white/40"><Loader2 size={12} className="animate-spin" /> Writing takes</span>}
+          <button onClick={onCancel} className="px-6 py-3 rounded-full text-[10px] font-bold tracking-widest text-white/40 hover:text-white">BACK</button>
+          <button
+            onClick={() => onChoose(composeFromVariants(variants.map(v => v.story), base, chosen))}
+            disabled={writing || finalCount === 0 || variants[base]?.status !== 'done'}
+            className="px-8 py-3 rounded-full bg-white text-black text-[10px] font-bold tracking-widest disabled:opacity-30"
+          >
+            PREMIERE THIS CUT
+          </button>
+        </div>
+      </header>
+
+      <div className="px-10 py-10 grid gap-4" style={{ gridTemplateColumns: `repeat(${variants.length}, minmax(18rem, 1fr))` }}>
+        {variants.map((v, i) => (
+          <div key={`head-${i}`} className={`glass rounded-[2rem] border p-6 space-y-3 ${base === i ? 'border-white/40' : 'border-white/5'}`}>
+            <div className="text-[9px] font-bold tracking-widest uppercase text-white/40">{v.label}</div>
+            <div className="font-serif text-xl">{v.story.title}</div>
+            {v.status === 'failed' ? (
+              <div className="flex items-center gap-2 text-red-400 text-[9px] font-bold tracking-widest uppercase"><AlertCircle size={12} /> {v.error || 'Take failed'}</div>
+            ) : (
+              <div className="flex items-center gap-4 text-[9px] font-bold tracking-widest uppercase">
+                <span className="text-white/30 flex items-center gap-2">
+                  {v.status === 'writing' && <Loader2 size={10} className="animate-spin" />}
+                  {v.story.beats.length} beats
+                </span>
+                <button
+                  onClick={() => { setBase(i); setPicks(null); }}
+                  disabled={v.status !== 'done'}
+                  title="Use this take as it is"
+                  className={`flex items-center gap-1 disabled:opacity-30 ${base === i && !picks ? 'text-white' : 'text-white/40 hover:text-white'}`}
+                >
+                  <Crown size={10} /> Winner
+                </button>
+                {base !== i && (
+                  <button
+                    onClick={() => setBase(i)}
+                    disabled={v.status !== 'done'}
+                    title="Take the title, Cut Pack and grade from this take, keeping the picked beats"
+                    className="text-white/40 hover:text-white disabled:opacity-30"
+                  >
+                    Base
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {Array.from({ length: rows }, (_, row) => variants.map((v, i) => {
+          const beat = v.story.beats[row];
+          if (!beat) return <div key={`${row}-${i}`} />;
+          const fragment = media.find(m => m.id === beat.associatedMediaId);
+          const selected = chosen[row] === i;
+          return (
+            <button
+              key={`${row}-${i}`}
+              onClick={() => pick(row, i)}
+              className={`text-left glass rounded-[2rem] border p-5 space-y-3 transition-all ${selected ? 'border-white bg-white/10' : 'border-white/5 hover:border-white/20 opacity-60 hover:opacity-100'}`}
+            >
+              <div className="flex items-center justify-between text-[9px] font-bold tracking-widest uppercase text-white/30">
+                <span>Beat {row + 1}{slotLabel(v.story, beat.slotId) ? ` · ${slotLabel(v.story, beat.slotId)}` : ''}</span>
+                {selected && <Check size={12} className="text-white" />}
+              </div>
+              <div className="flex gap-3">
+                {fragment && <div className="w-14 h-14 shrink-0 rounded-xl overflow-hidden bg-zinc-900"><MediaThumb item={fragment} /></div>}
+                <p className="font-serif text-sm leading-snug text-white/80">{stripEmphasis(beat.text)}</p>
+              </div>
+              {beat.location && (
+                <div className="flex items-center gap-1 text-[9px] font-bold tracking-widest uppercase text-white/30"><MapPin size={10} /> {beat.location.name}</div>
+              )}
+            </button>
+          );
+        }))}
+      </div>
+    </div>
+  );
+};
+
+export default VariantCompare;
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Film, Trash2, MapPin, Layers, Star, X, PenLine } from 'lucide-react';
+import { MediaItem, FocusTarget } from '../types';
+import { groupStacks } from '../services/mediaStacks';
+import MediaThumb from './MediaThumb';
+import CaptionEditor from './CaptionEditor';
+
+interface Props {
+  media: MediaItem[];
+  onRemove: (id: string) => void;
+  onSetHero: (id: string) => void;
+  onRemoveDuplicates: (stackId: string) => void;
+  onCaption: (id: string, description: string, tags: FocusTarget[]) => void;
+  onAdd: () => void;
+}
+
+const Thumb: React.FC<{ item: MediaItem }> = ({ item }) => (
+  <>
+    <MediaThumb item={item} className="transition-transform group-hover:scale-110" />
+    {item.mimeType.startsWith('video') && <Film size={10} className="absolute bottom-1 left-1/2 -translate-x-1/2 text-white/70 drop-shadow" />}
+  </>
+);
+
+const describe = (m: MediaItem) =>
+  `${new Date(m.timestamp).toLocaleString()}${m.location ? ` · ${m.location.name}` : ''}${m.description ? `\n${m.description}` : ''}`;
+
+const CaptionButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button onClick={onClick} title="Edit caption" className="absolute bottom-1 left-1/2 -translate-x-1/2 opacity-0 group-hover:opacity-100 bg-black/80 p-1 rounded-md transition-all">
+    <PenLine size={10} className="text-white" />
+  </button>
+);
+
+const VaultGrid: React.FC<Props> = ({ media, onRemove, onSetHero, onRemoveDuplicates, onCaption, onAdd }) => {
+  const [expandedStack, setExpandedStack] = useState<string | null>(null);
+  const [captioning, setCaptioning] = useState<string | null>(null);
+  const captioned = media.find(m => m.id === captioning);
+  const stacks = groupStacks(media);
+  const expanded = stacks.find(s => s.hero.stackId && s.hero.stackId === expandedStack);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-4 gap-3 content-start">
+        {stacks.map(({ hero, members }) => (
+          <div key={hero.id} title={describe(hero)} className={`aspect-square rounded-xl overflow-hidden border relative group bg-zinc-900 ${expanded?.hero.id === hero.id ? 'border-white' : 'border-white/10'}`}>
+            <Thumb item={hero} />
+            <button onClick={() => onRemove(hero.id)} className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 bg-black/80 p-1 rounded-md transition-all">
+              <Trash2 size={10} className="text-red-400" />
+            </button>
+            <CaptionButton onClick={() => setCaptioning(hero.id)} />
+            {hero.source?.provider === 'ai' && <div className="absolute bottom-1 left-1 w-1.5 h-1.5 bg-amber-500 rounded-full shadow-[0_0_5px_rgba(245,158,11,0.8)]"></div>}
+            {hero.location && <MapPin size={10} className="absolute bottom-1 right-1 text-white/60 drop-shadow" />}
+            {members.length > 1 && (
+              <button
+                onClick={() => setExpandedStack(expandedStack === hero.stackId ? null : hero.stackId!)}
+                title="Burst / duplicate stack"
+                className="absolute top-1 left-1 flex items-center gap-1 bg-black/80 px-1.5 py-0.5 rounded-md text-[8px] font-bold text-white/80 hover:text-white"
+              >
+                <Layers size={8} /> {members.length}
+              </button>
+            )}
+          </div>
+        ))}
+        <button onClick={onAdd} className="aspect-square rounded-xl border border-dashed border-white/20 flex items-center justify-center text-white/20 hover:text-white transition-all">+</button>
+      </div>
+
+      {expanded && (
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3 animate-fade-in">
+          <div className="flex items-center justify-between text-[9px] font-bold tracking-widest uppercase text-white/40">
+            <span>Stack · {expanded.members.length} frames</span>
+            <div className="flex items-center gap-3">
+              <button onClick={() => { onRemoveDuplicates(expanded.hero.id); setExpandedStack(null); }} className="flex items-center gap-1 text-red-400/80 hover:text-red-400">
+                <Trash2 size={10} /> Keep hero only
+              </button>
+              <button onClick={() => setExpandedStack(null)} className="hover:text-white"><X size={12} /></button>
+            </div>
+          </div>
+          <div className="grid grid-cols-5 gap-2">
+            {expanded.members.map(m => (
+              <div key={m.id} title={describe(m)} className={`aspect-square rounded-lg overflow-hidden border relative group bg-zinc-900 ${m.id === expanded.hero.id ? 'border-amber-500' : 'border-white/10'}`}>
+                <Thumb item={m} />
+                {m.id === expanded.hero.id ? (
+                  <Star size={10} className="absolute top-1 left-1 text-amber-500 fill-current" />
+                ) : (
+                  <button onClick={() => { onSetHero(m.id); setExpandedStack(m.id); }} title="Make hero" className="absolute top-1 left-1 opacity-0 group-hover:opacity-100 bg-black/80 p-1 rounded-md transition-all">
+                    <Star size={10} className="text-white" />
+                  </button>
+                )}
+                <button onClick={() => onRemove(m.id)} className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 bg-black/80 p-1 rounded-md transition-all">
+                  <Trash2 size={10} className="text-red-400" />
+                </button>
+                <CaptionButton onClick={() => setCaptioning(m.id)} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {captioned && (
+        <CaptionEditor
+          key={captioned.id}
+          item={captioned}
+          onSave={(description, tags) => onCaption(captioned.id, description, tags)}
+          onClose={() => setCaptioning(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VaultGrid;
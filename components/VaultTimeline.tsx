@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Film, MapPin, Layers, History } from 'lucide-react';
+import { MediaItem } from '../types';
+import { TimelineGroup, buildTimeline } from '../services/mediaTimeline';
+import MediaThumb from './MediaThumb';
+
+/** Drag payload type, distinct from OS file drops handled by the vault. */
+export const TIMELINE_DRAG_TYPE = 'application/x-reelchemy-fragment';
+
+interface Props {
+  media: MediaItem[];
+  onMove: (id: string, target: TimelineGroup) => void;
+  onRestoreTime: (id: string) => void;
+}
+
+const formatGap = (ms: number) => {
+  const hours = ms / 3600000;
+  return hours >= 36 ? `${Math.round(hours / 24)} days without fragments` : `${Math.round(hours)}h gap`;
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (day: string) =>
+  new Date(`${day}T12:00:00`).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+const VaultTimeline: React.FC<Props> = ({ media, onMove, onRestoreTime }) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Stacks are shown by their hero; moving the hero moves the whole stack.
+  const days = useMemo(() => buildTimeline(media.filter(m => !m.stackId || m.stackId === m.id)), [media]);
+  const stackSize = (m: MediaItem) => m.stackId ? media.filter(x => x.stackId === m.stackId).length : 1;
+
+  const handleDrop = (e: React.DragEvent, group: TimelineGroup) => {
+    const id = e.dataTransfer.getData(TIMELINE_DRAG_TYPE);
+    if (!id) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    onMove(id, group);
+  };
+
+  return (
+    <div className="space-y-6">
+      {days.map((day, dayIndex) => (
+        <div key={day.day} className="space-y-3">
+          <div className="flex items-center justify-between text-[9px] font-bold tracking-[0.3em] uppercase text-white/40">
+            <span>Day {dayIndex + 1}</span>
+            <span className="font-mono tracking-normal text-white/20">{formatDay(day.day)}</span>
+          </div>
+          {day.groups.map(group => (
+            <React.Fragment key={group.id}>
+              {group.gapBeforeMs && (
+                <div className="flex items-center gap-3 text-[8px] font-bold tracking-widest uppercase text-white/20">
+                  <div className="flex-1 border-t border-dashed border-white/10"></div>
+                  {formatGap(group.gapBeforeMs)}
+                  <div className="flex-1 border-t border-dashed border-white/10"></div>
+                </div>
+              )}
+              <div
+                onDragOver={(e) => {
+                  if (!e.dataTransfer.types.includes(TIMELINE_DRAG_TYPE)) return;
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setDropTarget(group.id);
+                }}
+                onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null); }}
+                onDrop={(e) => handleDrop(e, group)}
+                className={`rounded-2xl border p-3 space-y-2 transition-all ${dropTarget === group.id ? 'border-white/40 bg-white/5' : 'border-white/5'}`}
+              >
+                <div className="flex items-center justify-between text-[9px] text-white/40">
+                  <span className="flex items-center gap-1 font-bold tracking-widest uppercase truncate">
+                    {group.place && <MapPin size={9} />} {group.place || 'Unplaced'}
+                  </span>
+                  <span className="font-mono">
+                    {formatTime(group.start)}{group.end !== group.start ? ` – ${formatTime(group.end)}` : ''}
+                  </span>
+                </div>
+                <div className="grid grid-cols-5 gap-2">
+                  {group.items.map(m => (
+                    <div
+                      key={m.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData(TIMELINE_DRAG_TYPE, m.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                      }}
+                      title={`${new Date(m.timestamp).toLocaleString()}${m.originalTimestamp ? `\nCamera clock: ${new Date(m.originalTimestamp).toLocaleString()}` : ''}${m.description ? `\n${m.description}` : ''}`}
+                      className="aspect-square rounded-lg overflow-hidden border border-white/10 relative group bg-zinc-900 cursor-grab active:cursor-grabbing"
+                    >
+                      <MediaThumb item={m} />
+                      {m.mimeType.startsWith('video') && <Film size={9} className="absolute bottom-1 left-1 text-white/70 drop-shadow" />}
+                      {stackSize(m) > 1 && (
+                        <div className="absolute top-1 left-1 flex items-center gap-0.5 bg-black/80 px-1 rounded text-[7px] font-bold text-white/80">
+                          <Layers size={7} /> {stackSize(m)}
+                        </div>
+                      )}
+                      {m.originalTimestamp && (
+                        <button onClick={() => onRestoreTime(m.id)} title="Restore camera time" className="absolute top-1 right-1 bg-amber-500 text-black p-0.5 rounded">
+                          <History size={8} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VaultTimeline;
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Play, Square, Loader2, Plus, X } from 'lucide-react';
+import { CastMember } from '../types';
+import { NARRATOR_VOICES, VOICE_STYLES } from '../services/cutPacks';
+import { previewVoice } from '../services/geminiService';
+
+interface Props {
+  /** Name of the Cut Pack the narrator is assigned to. */
+  packName: string;
+  narrator: string;
+  onNarrator: (voice: string) => void;
+  cast: CastMember[];
+  onCast: (cast: CastMember[]) => void;
+  /** Language previews are spoken in. */
+  language: string;
+}
+
+const MAX_CAST = 3;
+
+const VoicePicker: React.FC<{ value: string; onChange: (voice: string) => void; taken: string[] }> = ({ value, onChange, taken }) => (
+  <div className="flex flex-wrap gap-1">
+    {NARRATOR_VOICES.map(v => (
+      <button
+        key={v}
+        onClick={() => onChange(v)}
+        title={`${VOICE_STYLES[v] ?? ''}${taken.includes(v) && v !== value ? ' · already cast' : ''}`}
+        className={`px-3 py-1.5 text-[8px] font-bold rounded-full border transition-all ${value === v ? 'bg-white text-black border-white' : taken.includes(v) ? 'border-white/5 text-white/15' : 'border-white/10 text-white/40 hover:border-white/20'}`}
+      >
+        {v.toUpperCase()}
+      </button>
+    ))}
+  </div>
+);
+
+const VoiceCasting: React.FC<Props> = ({ packName, narrator, onNarrator, cast, onCast, language }) => {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Decoded previews by voice and language; each is synthesized once per session.
+  const previewsRef = useRef(new Map<string, AudioBuffer>());
+  const [playing, setPlaying] = useState<string | null>(null);
+  const [loading, setLoading] = useState<string | null>(null);
+
+  const stop = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setPlaying(null);
+  };
+
+  useEffect(() => () => {
+    sourceRef.current?.stop();
+    ctxRef.current?.close();
+  }, []);
+
+  const preview = async (voice: string) => {
+    if (playing === voice) return stop();
+    stop();
+    const key = `${voice}|${language}`;
+    setLoading(voice);
+    try {
+      if (!ctxRef.current) {
+        const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+        ctxRef.current = new AudioContextClass();
+      }
+      const ctx = ctxRef.current;
+      let buffer = previewsRef.current.get(key);
+      if (!buffer) {
+        buffer = await ctx.decodeAudioData(await previewVoice(voice, language));
+        previewsRef.current.set(key, buffer);
+      }
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (sourceRef.current === source) stop();
+      };
+      source.start();
+      sourceRef.current = source;
+      setPlaying(voice);
+    } catch (e) {
+      console.error(e);
+      alert(`Could not preview ${voice}.`);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const previewButton = (voice: string) => (
+    <button
+      onClick={() => preview(voice)}
+      disabled={!!loading && loading !== voice}
+      title={`Preview ${voice}`}
+      className="p-2 rounded-full border border-white/10 text-white/40 hover:text-white disabled:opacity-30"
+    >
+      {loading === voice ? <Loader2 size={10} className="animate-spin" /> : playing === voice ? <Square size={10} /> : <Play size={10} />}
+    </button>
+  );
+
+  const updateMember = (i: number, patch: Partial<CastMember>) =>
+    onCast(cast.map((c, j) => j === i ? { ...c, ...patch } : c));
+
+  const taken = [narrator, ...cast.map(c => c.voice)];
+
+  const addMember = () => {
+    const voice = NARRATOR_VOICES.find(v => !taken.includes(v)) ?? NARRATOR_VOICES[0];
+    onCast([...cast, { name: '', voice }]);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-bold uppercase tracking-[0.3em] text-white/30 flex items-center gap-2"><Mic size={10} /> Casting</label>
+        <button
+          onClick={addMember}
+          disabled={cast.length >= MAX_CAST}
+          className="flex items-center gap-1 text-[9px] font-bold tracking-widest uppercase text-white/30 hover:text-white disabled:opacity-30"
+        >
+          <Plus size={10} /> Character
+        </button>
+      </div>
+
+      <div className="space-y-3 p-4 bg-black/40 rounded-[2rem] border border-white/5">
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] font-bold tracking-widest uppercase text-white/60">Narrator · {packName}</span>
+          {previewButton(narrator)}
+        </div>
+        <VoicePicker value={narrator} onChange={onNarrator} taken={taken} />
+      </div>
+
+      {cast.map((member, i) => (
+        <div key={i} className="space-y-3 p-4 bg-black/40 rounded-[2rem] border border-white/5">
+          <div className="flex items-center gap-2">
+            <input
+              value={member.name}
+              onChange={(e) => updateMember(i, { name: e.target.value })}
+              placeholder="Name"
+              className="flex-1 min-w-0 bg-transparent text-[10px] font-bold tracking-widest uppercase text-white/80 outline-none placeholder:text-white/20"
+            />
+            {previewButton(member.voice)}
+            <button onClick={() => onCast(cast.filter((_, j) => j !== i))} className="p-2 text-white/30 hover:text-white"><X size={12} /></button>
+          </div>
+          <input
+            value={member.role ?? ''}
+            onChange={(e) => updateMember(i, { role: e.target.value || undefined })}
+            placeholder="Who they are, e.g. my sister, who planned the trip"
+            className="w-full bg-transparent text-[10px] italic text-white/50 outline-none placeholder:text-white/20"
+          />
+          <VoicePicker value={member.voice} onChange={(voice) => updateMember(i, { voice })} taken={taken} />
+        </div>
+      ))}
+      {cast.length > 0 && (
+        <p className="text-[9px] text-white/30 leading-relaxed">Beats that quote a character are voiced as dialogue between the narrator and them.</p>
+      )}
+    </div>
+  );
+};
+
+export default VoiceCasting;
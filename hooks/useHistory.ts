@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useState } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Oldest snapshots are dropped beyond this many undo steps.
+const MAX_HISTORY = 100;
+
+/**
+ * Undo/redo over immutable snapshots. `set` records a step; `reset` starts a fresh history.
+ */
+export const useHistory = <T,>(initial: T) => {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((update: (present: T) => T) => setState(s => {
+    const next = update(s.present);
+    if (next === s.present) return s;
+    return { past: [...s.past, s.present].slice(-MAX_HISTORY), present: next, future: [] };
+  }), []);
+
+  const undo = useCallback(() => setState(s => s.past.length === 0 ? s : {
+    past: s.past.slice(0, -1),
+    present: s.past[s.past.length - 1],
+    future: [s.present, ...s.future]
+  }), []);
+
+  const redo = useCallback(() => setState(s => s.future.length === 0 ? s : {
+    past: [...s.past, s.present],
+    present: s.future[0],
+    future: s.future.slice(1)
+  }), []);
+
+  const reset = useCallback((value: T) => setState({ past: [], present: value, future: [] }), []);
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
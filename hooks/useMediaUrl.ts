@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { MediaBlobKind, getMediaUrl, peekMediaUrl } from '../services/mediaStore';
+
+/**
+ * Resolves a vault fragment to an object URL, trying each blob kind in order.
+ */
+export const useMediaUrl = (id: string | undefined, ...kinds: MediaBlobKind[]): string | undefined => {
+  const order = kinds.length > 0 ? kinds : ['original' as MediaBlobKind];
+  const key = order.join(',');
+  const [url, setUrl] = useState(() => id ? peekMediaUrl(id, order) : undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!id) {
+      setUrl(undefined);
+      return;
+    }
+    setUrl(peekMediaUrl(id, order));
+    getMediaUrl(id, order)
+      .then(u => { if (!cancelled) setUrl(u); })
+      .catch(e => console.warn(`Media ${id} unavailable`, e));
+    return () => { cancelled = true; };
+  }, [id, key]);
+
+  return url;
+};
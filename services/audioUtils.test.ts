@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { PEAK_CEILING_DB, TARGET_LUFS, detectSilences, limitPeaks, masterSpeech, measureLoudness, normalizeLoudness, retimePauses, trimSilence } from './audioUtils';
+
+const RATE = 48000;
+
+const sine = (seconds: number, amplitude: number, hz: number = 997, sampleRate: number = RATE) =>
+  Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin(2 * Math.PI * hz * i / sampleRate));
+
+const peak = (samples: Float32Array) => samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+
+const ceiling = Math.pow(10, PEAK_CEILING_DB / 20);
+
+describe('measureLoudness', () => {
+  it('reads a full-scale 997 Hz sine at about -3 LUFS', () => {
+    expect(measureLoudness(sine(2, 1), RATE)).toBeCloseTo(-3.01, 1);
+    expect(measureLoudness(sine(2, 1, 997, 24000), 24000)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('reports silence as -Infinity', () => {
+    expect(measureLoudness(new Float32Array(RATE), RATE)).toBe(-Infinity);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it('brings quiet and loud speech to the target', () => {
+    expect(measureLoudness(normalizeLoudness(sine(2, 0.05), RATE), RATE)).toBeCloseTo(TARGET_LUFS, 1);
+    expect(measureLoudness(normalizeLoudness(sine(2, 0.9), RATE), RATE)).toBeCloseTo(TARGET_LUFS, 1);
+  });
+
+  it('boosts near-silence by at most 20 dB', () => {
+    const quiet = sine(2, 0.0005);
+    expect(peak(normalizeLoudness(quiet, RATE)) / peak(quiet)).toBeCloseTo(10, 3);
+  });
+});
+
+describe('limitPeaks', () => {
+  it('never lets a sample past the ceiling', () => {
+    const loud = sine(1, 1.8, 220);
+    loud[12345] = -3;
+    expect(peak(limitPeaks(loud, RATE))).toBeLessThanOrEqual(ceiling + 1e-6);
+  });
+
+  it('ramps the gain down ahead of a peak instead of stepping it', () => {
+    const level = 0.5;
+    const input = new Float32Array(RATE / 10).fill(level);
+    input[2400] = 2;
+    const gains = Array.from(limitPeaks(input, RATE), (s, i) => s / input[i]);
+    expect(gains[2400] * 2).toBeLessThanOrEqual(ceiling + 1e-6);
+    const steepest = gains.slice(1).reduce((max, g, i) => Math.max(max, Math.abs(g - gains[i])), 0);
+    // The full reduction of ~0.55 is spread over the 5 ms (240 sample) look-ahead.
+    expect(steepest).toBeLessThan(0.01);
+  });
+
+  it('leaves audio under the ceiling untouched', () => {
+    const quiet = sine(0.5, 0.5);
+    expect(limitPeaks(quiet, RATE)).toEqual(quiet);
+  });
+});
+
+describe('trimSilence', () => {
+  it('cuts only leading and trailing silence, keeping pauses inside', () => {
+    const pad = Math.round(RATE * 0.02);
+    const tone = sine(0.5, 0.5);
+    const input = new Float32Array(RATE * 3);
+    input.set(tone, RATE / 2);
+    input.set(tone, RATE * 2);
+    const trimmed = trimSilence(input, RATE);
+    // First to last audible sample, the 1 s pause between the tones, and the padding on each side.
+    const first = input.findIndex(s => Math.abs(s) >= 0.00316);
+    const last = input.length - 1 - [...input].reverse().findIndex(s => Math.abs(s) >= 0.00316);
+    expect(trimmed.length).toBe(last - first + 1 + 2 * pad);
+    expect(trimmed.subarray(pad, pad + tone.length - 1)).toEqual(input.subarray(first, first + tone.length - 1));
+  });
+
+  it('returns nothing for pure silence', () => {
+    expect(trimSilence(new Float32Array(RATE), RATE).length).toBe(0);
+  });
+});
+
+describe('retimePauses', () => {
+  // Tone, gap, tone, gap, tone, with silence at both ends.
+  const take = (gaps: number[]) => {
+    const tone = sine(0.5, 0.5);
+    const parts = [new Float32Array(RATE / 4), tone, ...gaps.flatMap(g => [new Float32Array(Math.round(g * RATE)), tone]), new Float32Array(RATE / 4)];
+    const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+    parts.reduce((offset, p) => (out.set(p, offset), offset + p.length), 0);
+    return out;
+  };
+  const inner = (samples: Float32Array) => detectSilences(samples, RATE, { minDuration: 0.12 }).slice(1, -1).map(([s, e]) => e - s);
+
+  // Pauses are found in 20 ms windows.
+  const WINDOW = 0.02;
+
+  it('stretches and shortens the longest pauses to the given length', () => {
+    const retimed = retimePauses(take([0.2, 1.2]), RATE, 2, 0.6);
+    const gaps = inner(retimed);
+    expect(gaps).toHaveLength(2);
+    gaps.forEach(gap => expect(Math.abs(gap - 0.6)).toBeLessThanOrEqual(WINDOW));
+    expect(Math.abs(retimed.length - take([0.6, 0.6]).length)).toBeLessThanOrEqual(2 * WINDOW * RATE);
+  });
+
+  it('leaves shorter pauses and the silent ends alone', () => {
+    const input = take([0.3, 0.9]);
+    const retimed = retimePauses(input, RATE, 1, 0.5);
+    const [short, long] = inner(retimed);
+    expect(short).toBe(inner(input)[0]);
+    expect(long).toBeCloseTo(0.5, 5);
+    expect(retimed.subarray(0, RATE / 4)).toEqual(input.subarray(0, RATE / 4));
+    expect(retimed.subarray(-RATE / 4)).toEqual(input.subarray(-RATE / 4));
+  });
+});
+
+describe('masterSpeech', () => {
+  it('trims, reaches the target loudness and stays under the ceiling', () => {
+    const input = new Float32Array(RATE * 3);
+    input.set(sine(2, 0.05), RATE / 2);
+    // A click that the normalization gain pushes well past the ceiling.
+    input[RATE] = 0.5;
+    const mastered = masterSpeech(input, RATE);
+    expect(mastered.length).toBeLessThan(RATE * 2.1);
+    // Limiting the click after normalization takes a little loudness with it.
+    expect(measureLoudness(mastered, RATE)).toBeCloseTo(TARGET_LUFS, 0);
+    expect(peak(mastered)).toBeLessThanOrEqual(ceiling + 1e-6);
+  });
+});
@@ -16,6 +16,31 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+/**
+ * Encodes an ArrayBuffer as a Base64 string.
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return window.btoa(binary);
+}
+
+/**
+ * Converts Web Audio float samples (-1..1) to raw PCM16.
+ */
+export function floatToPcm16(samples: Float32Array): ArrayBuffer {
+  const pcm16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm16.buffer;
+}
+
 /**
  * Helper to write a string to a DataView.
  */
@@ -70,3 +95,251 @@ export function pcmToWav(pcmData: ArrayBuffer, sampleRate: number = 24000): Blob
 
   return new Blob([view], { type: 'audio/wav' });
 }
+
+/**
+ * Joins raw PCM16 buffers (same sample rate) into one.
+ */
+export function concatPcm16(chunks: ArrayBuffer[]): ArrayBuffer {
+  const total = chunks.reduce((n, c) => n + c.byteLength, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(new Uint8Array(c), offset);
+    offset += c.byteLength;
+  }
+  return out.buffer;
+}
+
+/**
+ * Raw PCM16 silence of the given length, for padding speech.
+ */
+export function silencePcm16(seconds: number, sampleRate: number = 24000): ArrayBuffer {
+  return new Int16Array(Math.max(0, Math.round(seconds * sampleRate))).buffer;
+}
+
+/**
+ * Finds stretches of near-silence in mono samples, as [start, end] times in seconds.
+ * Only gaps of at least `minDuration` count, so the short stops inside words are ignored.
+ */
+export function detectSilences(
+  samples: Float32Array,
+  sampleRate: number,
+  { threshold = 0.01, minDuration = 0.2 }: { threshold?: number; minDuration?: number } = {}
+): [number, number][] {
+  const window = Math.max(1, Math.round(sampleRate * 0.02));
+  const silences: [number, number][] = [];
+  let silentFrom = -1;
+  for (let i = 0; i < samples.length; i += window) {
+    let sum = 0;
+    const end = Math.min(samples.length, i + window);
+    for (let j = i; j < end; j++) sum += samples[j] * samples[j];
+    const quiet = Math.sqrt(sum / (end - i)) < threshold;
+    if (quiet && silentFrom < 0) silentFrom = i;
+    if (!quiet && silentFrom >= 0) {
+      if ((i - silentFrom) / sampleRate >= minDuration) silences.push([silentFrom / sampleRate, i / sampleRate]);
+      silentFrom = -1;
+    }
+  }
+  if (silentFrom >= 0 && (samples.length - silentFrom) / sampleRate >= minDuration) {
+    silences.push([silentFrom / sampleRate, samples.length / sampleRate]);
+  }
+  return silences;
+}
+
+/**
+ * Converts raw PCM16 to Web Audio float samples (-1..1).
+ */
+export function pcm16ToFloat(pcmData: ArrayBuffer): Float32Array {
+  const pcm16 = new Int16Array(pcmData);
+  const samples = new Float32Array(pcm16.length);
+  for (let i = 0; i < pcm16.length; i++) samples[i] = pcm16[i] / 0x8000;
+  return samples;
+}
+
+// --- Mastering ---
+// Pure functions over mono float samples; none of them touch Web Audio.
+
+/** Loudness every beat is brought to, in LUFS; a common target for speech on phones and the web. */
+export const TARGET_LUFS = -16;
+/** Peak ceiling after limiting, in dBFS. */
+export const PEAK_CEILING_DB = -1;
+/** Most a quiet beat is boosted, in dB, so near-silence is not blown up into noise. */
+const MAX_GAIN_DB = 20;
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+// ITU-R BS.1770 K-weighting (head shelf, then high-pass), derived for any sample rate.
+function kWeighting(sampleRate: number): Biquad[] {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = [
+    (Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0,
+    2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0
+  ];
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0];
+  return [shelf, highPass];
+}
+
+function filter(samples: Float32Array, [b0, b1, b2, a1, a2]: Biquad): Float32Array {
+  const out = new Float32Array(samples.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    out[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return out;
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Integrated loudness in LUFS (ITU-R BS.1770): K-weighted power over 400 ms blocks with
+ * 75% overlap, gated at -70 LUFS and then 10 LU below the ungated level. -Infinity for silence.
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = kWeighting(sampleRate).reduce(filter, samples);
+  const block = Math.min(weighted.length, Math.round(sampleRate * 0.4));
+  const step = Math.max(1, Math.round(sampleRate * 0.1));
+  if (block === 0) return -Infinity;
+  const powers: number[] = [];
+  for (let start = 0; start + block <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + block; i++) sum += weighted[i] * weighted[i];
+    powers.push(sum / block);
+  }
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const audible = powers.filter(p => toLufs(p) > -70);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = toLufs(mean(audible)) - 10;
+  const gated = audible.filter(p => toLufs(p) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+/**
+ * Scales samples so their integrated loudness is `targetLufs`, boosting by at most MAX_GAIN_DB.
+ * Peaks may exceed full scale afterwards; limit them before converting back to PCM.
+ */
+export function normalizeLoudness(samples: Float32Array, sampleRate: number, targetLufs: number = TARGET_LUFS): Float32Array {
+  const loudness = measureLoudness(samples, sampleRate);
+  if (!Number.isFinite(loudness)) return samples.slice();
+  const gain = Math.pow(10, Math.min(MAX_GAIN_DB, targetLufs - loudness) / 20);
+  return samples.map(s => s * gain);
+}
+
+/**
+ * Look-ahead peak limiter: gain ramps down across the look-ahead window, reaching the
+ * reduction a peak needs as it arrives, and recovers over `releaseSeconds`, so no sample
+ * exceeds `ceilingDb` and gain changes never step.
+ */
+export function limitPeaks(samples: Float32Array, sampleRate: number, ceilingDb: number = PEAK_CEILING_DB, releaseSeconds: number = 0.05): Float32Array {
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const lookahead = Math.max(1, Math.round(sampleRate * 0.005));
+  const release = 1 - Math.exp(-1 / (sampleRate * releaseSeconds));
+  const needed = samples.map(s => Math.min(1, ceiling / Math.max(Math.abs(s), 1e-9)));
+
+  // Lowest gain needed over the next `lookahead` samples, via a monotonic queue of indices,
+  // held there and released smoothly once the peaks have passed.
+  const queue: number[] = [];
+  let head = 0;
+  const held = new Float64Array(samples.length);
+  let gain = 1;
+  for (let i = 0, ahead = 0; i < samples.length; i++) {
+    for (; ahead < Math.min(samples.length, i + lookahead + 1); ahead++) {
+      while (queue.length > head && needed[queue[queue.length - 1]] >= needed[ahead]) queue.pop();
+      queue.push(ahead);
+    }
+    while (queue[head] < i) head++;
+    const target = needed[queue[head]];
+    gain = target < gain ? target : Math.min(target, gain + (1 - gain) * release);
+    held[i] = gain;
+  }
+
+  // Averaging the held gain over the window turns each drop into a ramp. Every held value
+  // in the window ending at a peak already covers that peak, so their mean does too.
+  const out = new Float32Array(samples.length);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += held[i];
+    if (i > lookahead) sum -= held[i - lookahead - 1];
+    out[i] = samples[i] * sum / Math.min(i + 1, lookahead + 1);
+  }
+  return out;
+}
+
+/**
+ * Cuts leading and trailing silence (below `thresholdDb`), keeping `padSeconds` around the sound.
+ */
+export function trimSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  { thresholdDb = -50, padSeconds = 0.02 }: { thresholdDb?: number; padSeconds?: number } = {}
+): Float32Array {
+  const threshold = Math.pow(10, thresholdDb / 20);
+  let first = 0;
+  while (first < samples.length && Math.abs(samples[first]) < threshold) first++;
+  if (first === samples.length) return new Float32Array(0);
+  let last = samples.length - 1;
+  while (last > first && Math.abs(samples[last]) < threshold) last--;
+  const pad = Math.round(sampleRate * padSeconds);
+  return samples.slice(Math.max(0, first - pad), Math.min(samples.length, last + 1 + pad));
+}
+
+/**
+ * Sets the `count` longest pauses inside speech to `seconds` each, e.g. the breaks between
+ * sentences voiced in one take. Leading and trailing silence is left as it is. The quiet
+ * edges of each pause are kept, so speech decays and onsets are not cut.
+ */
+export function retimePauses(samples: Float32Array, sampleRate: number, count: number, seconds: number): Float32Array {
+  const duration = samples.length / sampleRate;
+  const pauses = detectSilences(samples, sampleRate, { minDuration: 0.12 })
+    .filter(([start, end]) => start > 0 && end < duration)
+    .sort((a, b) => (b[1] - b[0]) - (a[1] - a[0]))
+    .slice(0, Math.max(0, count))
+    .sort((a, b) => a[0] - b[0]);
+  const length = Math.round(seconds * sampleRate);
+  const pieces: Float32Array[] = [];
+  let from = 0;
+  for (const [start, end] of pauses) {
+    const s = Math.round(start * sampleRate);
+    const e = Math.round(end * sampleRate);
+    if (e - s >= length) {
+      // Too long: keep its two edges, joined where both are quiet.
+      pieces.push(samples.subarray(from, s + Math.floor(length / 2)));
+      from = e - Math.ceil(length / 2);
+    } else {
+      // Too short: open it up with silence in the middle.
+      const middle = s + Math.floor((e - s) / 2);
+      pieces.push(samples.subarray(from, middle), new Float32Array(length - (e - s)));
+      from = middle;
+    }
+  }
+  pieces.push(samples.subarray(from));
+  const out = new Float32Array(pieces.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const piece of pieces) {
+    out.set(piece, offset);
+    offset += piece.length;
+  }
+  return out;
+}
+
+/**
+ * Mastering pass for one beat of speech: trims its silent ends, brings it to the target
+ * loudness and limits its peaks, so levels hold steady from beat to beat.
+ */
+export function masterSpeech(
+  samples: Float32Array,
+  sampleRate: number,
+  { targetLufs = TARGET_LUFS, ceilingDb = PEAK_CEILING_DB }: { targetLufs?: number; ceilingDb?: number } = {}
+): Float32Array {
+  return limitPeaks(normalizeLoudness(trimSilence(samples, sampleRate), sampleRate, targetLufs), sampleRate, ceilingDb);
+}
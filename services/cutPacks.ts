@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CutPack, CutPackCategory, PackScore, PaceLevel, VisualGrade } from "../types";
+
+export const BUILT_IN_CUT_PACKS: CutPack[] = [
+    {
+        id: 'neon-noir', category: 'Moody', name: 'Neon Noir', promise: 'Gritty & Cynical',
+        description: 'Rain-slicked streets, high contrast, and whispered secrets.',
+        voice: 'Kore', pace: 'Slow Burn', grade: 'Noir', score: 'rain-drone',
+        sampleLines: ['The city never sleeps. It just stops pretending.', 'Every alley here has a memory it would rather keep.']
+    },
+    {
+        id: 'postcard-pop', category: 'Bright', name: 'Postcard Pop', promise: 'Vibrant Optimism',
+        description: 'Saturated colors and deadpan joy, inspired by the 1960s.',
+        voice: 'Puck', pace: 'Hypercut', grade: 'Technicolor', score: 'postcard-pulse',
+        sampleLines: ['Day three. Gelato count: seven. Regrets: zero.', 'The sea was exactly as blue as the brochure promised. Suspicious.']
+    },
+    {
+        id: 'a24-drift', category: 'Artsy', name: 'A24 Drift', promise: 'Subversive & Detail-rich',
+        description: 'Slow pans on strange details. Atmospheric and unconventional.',
+        voice: 'Puck', pace: 'Slow Burn', grade: 'Faded Film', score: 'haze',
+        sampleLines: ['A chair faces the wall. Nobody knows who turned it.', 'The light stayed longer than we did.']
+    },
+    {
+        id: 'mythic-odyssey', category: 'Epic', name: 'Mythic Odyssey', promise: 'Heroic & Grand',
+        description: 'A legendary trial of spirit against vast horizons.',
+        voice: 'Puck', pace: 'Balanced', grade: 'Golden Hour', score: 'horizon-swell',
+        sampleLines: ['And so the travellers set out, as travellers always have, toward the edge of the known.']
+    },
+];
+
+export const CUT_PACK_CATEGORIES: CutPackCategory[] = ['Moody', 'Bright', 'Epic', 'Artsy'];
+export const PACE_LEVELS: PaceLevel[] = ['Slow Burn', 'Balanced', 'Hypercut'];
+/** Prebuilt voices offered by the TTS model. */
+export const NARRATOR_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+/** How each voice sounds, for casting. */
+export const VOICE_STYLES: Record<string, string> = {
+    Kore: 'Firm', Puck: 'Upbeat', Charon: 'Informative', Fenrir: 'Excitable',
+    Aoede: 'Breezy', Leda: 'Youthful', Orus: 'Firm', Zephyr: 'Bright'
+};
+
+/** Speaker name the narrator goes by in dialogue lines. */
+export const NARRATOR_SPEAKER = 'Narrator';
+
+/** CSS filters that realise each grade on screen. */
+export const VISUAL_GRADES: Record<VisualGrade, string> = {
+    'Natural': 'brightness(0.7) contrast(1.1)',
+    'Noir': 'grayscale(1) brightness(0.6) contrast(1.4)',
+    'Technicolor': 'saturate(1.8) brightness(0.75) contrast(1.15)',
+    'Faded Film': 'sepia(0.25) saturate(0.7) brightness(0.75) contrast(0.9)',
+    'Golden Hour': 'sepia(0.35) saturate(1.3) brightness(0.75) hue-rotate(-10deg)',
+    'Teal & Orange': 'saturate(1.3) hue-rotate(-15deg) brightness(0.7) contrast(1.2)'
+};
+
+const STORAGE_KEY = 'reelchemy.cutPacks';
+const NARRATORS_STORAGE_KEY = 'reelchemy.narrators';
+const SCORES_STORAGE_KEY = 'reelchemy.scores';
+const EXPORT_FORMAT = 'reelchemy-cut-packs';
+const EXPORT_VERSION = 1;
+
+/**
+ * Thrown when a shared Cut Pack file cannot be read.
+ */
+export class CutPackFormatError extends Error {
+    constructor(reason: string) {
+        super(`Invalid Cut Pack file: ${reason}`);
+        this.name = 'CutPackFormatError';
+    }
+}
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+    options.includes(value as T) ? value as T : fallback;
+
+/**
+ * Validates an untrusted pack (from storage or a shared file), filling optional fields
+ * with defaults. Returns undefined when the pack lacks a name.
+ */
+const sanitizePack = (raw: any): CutPack | undefined => {
+    if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) return undefined;
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        category: oneOf(raw.category, CUT_PACK_CATEGORIES, 'Artsy'),
+        name: raw.name.trim(),
+        promise: String(raw.promise ?? ''),
+        description: String(raw.description ?? ''),
+        voice: oneOf(raw.voice, NARRATOR_VOICES, 'Puck'),
+        pace: oneOf(raw.pace, PACE_LEVELS, 'Balanced'),
+        grade: oneOf(raw.grade, Object.keys(VISUAL_GRADES) as VisualGrade[], 'Natural'),
+        sampleLines: Array.isArray(raw.sampleLines) ? raw.sampleLines.map(String).filter((l: string) => l.trim()) : [],
+        score: typeof raw.score === 'string' && raw.score ? raw.score : undefined,
+        custom: true
+    };
+};
+
+export const loadCustomCutPacks = (): CutPack[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored.map(sanitizePack).filter((p): p is CutPack => !!p) : [];
+    } catch (e) {
+        console.warn("Stored Cut Packs unreadable", e);
+        return [];
+    }
+};
+
+export const saveCustomCutPacks = (packs: CutPack[]): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+};
+
+/**
+ * Narrator voices recast during casting, by Cut Pack id; packs not listed keep their own voice.
+ */
+export const loadNarratorVoices = (): Record<string, string> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(NARRATORS_STORAGE_KEY) || '{}');
+        return Object.fromEntries(Object.entries(stored ?? {}).filter(([, voice]) => NARRATOR_VOICES.includes(voice as string))) as Record<string, string>;
+    } catch (e) {
+        console.warn("Stored narrators unreadable", e);
+        return {};
+    }
+};
+
+export const saveNarratorVoices = (voices: Record<string, string>): void => {
+    localStorage.setItem(NARRATORS_STORAGE_KEY, JSON.stringify(voices));
+};
+
+/**
+ * Scores picked for Cut Packs, by pack id; packs not listed loop their own score.
+ */
+export const loadPackScores = (): Record<string, PackScore> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SCORES_STORAGE_KEY) || '{}');
+        return Object.fromEntries(Object.entries(stored ?? {}).flatMap(([id, raw]: [string, any]) => raw && typeof raw === 'object'
+            ? [[id, { trackId: typeof raw.trackId === 'string' ? raw.trackId : null, mode: raw.mode === 'crossfade' ? 'crossfade' : 'loop' }]]
+            : []));
+    } catch (e) {
+        console.warn("Stored scores unreadable", e);
+        return {};
+    }
+};
+
+export const savePackScores = (scores: Record<string, PackScore>): void => {
+    localStorage.setItem(SCORES_STORAGE_KEY, JSON.stringify(scores));
+};
+
+/**
+ * Serialises packs into the shareable JSON format.
+ */
+export const exportCutPacks = (packs: CutPack[]): Blob =>
+    new Blob(
+        [JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, packs: packs.map(({ custom, ...pack }) => pack) }, null, 2)],
+        { type: 'application/json' }
+    );
+
+/**
+ * Parses a shared Cut Pack file. Imported packs always become custom packs; ids that
+ * clash with a built-in are replaced so house styles never shadow the defaults.
+ */
+export const parseCutPackFile = (text: string): CutPack[] => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new CutPackFormatError('not JSON');
+    }
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.packs)) {
+        throw new CutPackFormatError('not a Reelchemy Cut Pack export');
+    }
+    if (data.version > EXPORT_VERSION) {
+        throw new CutPackFormatError(`version ${data.version} is newer than this app supports`);
+    }
+    const packs = data.packs.map(sanitizePack).filter((p: CutPack | undefined): p is CutPack => !!p);
+    if (packs.length === 0) throw new CutPackFormatError('no packs with a name');
+    return packs.map((p: CutPack) => BUILT_IN_CUT_PACKS.some(b => b.id === p.id) ? { ...p, id: `custom-${p.id}` } : p);
+};
+
+/**
+ * Merges imported packs into the custom list; a pack with the same id replaces the old one.
+ */
+export const mergeCutPacks = (existing: CutPack[], incoming: CutPack[]): CutPack[] => [
+    ...existing.filter(p => !incoming.some(i => i.id === p.id)),
+    ...incoming
+];
@@ -4,14 +4,26 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Modality, Type, GenerateContentResponse } from "@google/genai";
-import { CutPack, StoryArc, PaceLevel, FocusTarget, EndingStyle, MediaItem, StoryBeat, RecallStory, LocationPoint, ImageAspectRatio, ImageSize, VideoAspectRatio } from "../types";
-import { base64ToArrayBuffer, pcmToWav } from "./audioUtils";
+import { GoogleGenAI, Modality, Type, GenerateContentResponse, GroundingMetadata, Part, SpeechConfig } from "@google/genai";
+import { CutPack, StoryArc, PaceLevel, FocusTarget, FOCUS_TARGETS, EndingStyle, MediaItem, StoryBeat, BeatSource, RecallStory, NarrationTrack, CastMember, DialogueLine, LocationPoint, ImageAspectRatio, ImageSize, VideoAspectRatio } from "../types";
+import { base64ToArrayBuffer, concatPcm16, floatToPcm16, masterSpeech, pcm16ToFloat, pcmToWav, retimePauses, silencePcm16, trimSilence } from "./audioUtils";
+import { digestVideo } from "./videoDigest";
+import { MAX_STORY_FRAGMENTS } from "./mediaSelection";
+import { getMediaUrl, readMediaDataUrl } from "./mediaStore";
+import { buildTimeline } from "./mediaTimeline";
+import { createJsonArrayStream } from "./jsonStream";
+import { LOW_LOCATION_CONFIDENCE, resolveBeatLocation, stopIndexOf } from "./locationResolver";
+import { array, number, object, optional, requestValidJson, string, validate } from "./modelJson";
+import { DEFAULT_LANGUAGE, findLanguage } from "./languages";
+import { groundBeats } from "./grounding";
+import { ENDING_DIRECTIONS, arcSlots, endingSlotIds, findArcSlot } from "./storyArcs";
+import { NARRATOR_SPEAKER } from "./cutPacks";
+import { EMPHASIS_DIRECTION, SPEECH_PACING, hasEmphasis, splitSentences } from "./speechPacing";
 
 /**
  * Transcribes audio using gemini-3-flash-preview
  */
-export const transcribeAudio = async (base64Audio: string): Promise<string> => {
+export const transcribeAudio = async (base64Audio: string, language: string = DEFAULT_LANGUAGE): Promise<string> => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const response = await ai.models.generateContent({
         model: 'gemini-3-flash-preview',
@@ -19,7 +31,7 @@ export const transcribeAudio = async (base64Audio: string): Promise<string> => {
             {
                 parts: [
                     { inlineData: { data: base64Audio, mimeType: 'audio/wav' } },
-                    { text: "Transcribe this travel narrative accurately. Return only the text." }
+                    { text: `Transcribe this travel narrative accurately. The speaker is expected to use ${findLanguage(language).name}; transcribe in the language actually spoken. Return only the text.` }
                 ]
             }
         ]
@@ -74,16 +86,71 @@ export const generateVideo = async (prompt: string, aspectRatio: VideoAspectRati
     return URL.createObjectURL(blob);
 };
 
+// Typed checks for model JSON; see modelJson.ts for repair and retry.
+const itinerarySchema = array(object({
+    name: string({ nonEmpty: true }),
+    lat: number({ min: -90, max: 90 }),
+    lng: number({ min: -180, max: 180 }),
+    aliases: optional(array(string()))
+}));
+
+const captionSchema = array(object({
+    mediaId: string({ nonEmpty: true }),
+    description: string({ nonEmpty: true }),
+    tags: optional(array(string()))
+}));
+
+const beatSchema = object({
+    index: optional(number({ integer: true })),
+    text: string({ nonEmpty: true }),
+    locationName: optional(string()),
+    mediaId: optional(string()),
+    mediaTime: optional(number({ min: 0 })),
+    slotId: optional(string()),
+    lines: optional(array(object({
+        speaker: string(),
+        text: string({ nonEmpty: true })
+    })))
+});
+
+// Prompt section introducing the cast, and the response schema for their lines.
+const describeCast = (cast: CastMember[]) => cast.length === 0 ? '' : `
+                CAST (voiced separately from the narrator):
+                ${cast.map(c => `- ${c.name}${c.role ? `: ${c.role}` : ''}`).join('\n')}
+                When a beat quotes a cast member, also set lines: the beat text split in order into parts,
+                each spoken by "${NARRATOR_SPEAKER}" or a cast name. Joined, the parts must read exactly as the text.
+                Only quote what the fragments or captions plausibly support; most beats need no lines.
+`;
+
+const linesResponseSchema = (cast: CastMember[]) => ({
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            speaker: { type: Type.STRING, enum: [NARRATOR_SPEAKER, ...cast.map(c => c.name)] },
+            text: { type: Type.STRING }
+        },
+        required: ["speaker", "text"]
+    }
+});
+
+// Keeps lines by known speakers; a beat with no cast member speaking is plain narration.
+const castLines = (lines: DialogueLine[] | undefined, cast: CastMember[]): DialogueLine[] | undefined => {
+    const known = (lines ?? []).filter(l => l.speaker === NARRATOR_SPEAKER || cast.some(c => c.name === l.speaker));
+    return known.some(l => l.speaker !== NARRATOR_SPEAKER) ? known : undefined;
+};
+
 /**
  * Extracts a structured itinerary using gemini-2.5-flash with Google Maps tool.
  */
 export const extractItinerary = async (text: string): Promise<LocationPoint[]> => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
+    return requestValidJson('Itinerary', itinerarySchema, async correction => (await ai.models.generateContent({
         model: 'gemini-2.5-flash',
         contents: `Extract a list of travel locations from this description: "${text}". 
-        Provide estimated latitude and longitude for each.
-        Output strictly valid JSON array of objects: [{"name": "string", "lat": number, "lng": number}]`,
+        Provide estimated latitude and longitude for each, plus any other names the place goes by
+        (local spelling, well-known landmarks or neighbourhoods within it) as aliases.
+        Output strictly valid JSON array of objects: [{"name": "string", "lat": number, "lng": number, "aliases": ["string"]}]${correction ? `\n\n${correction}` : ''}`,
         config: { 
             tools: [{ googleMaps: {} }],
             responseMimeType: 'application/json',
@@ -94,20 +161,160 @@ export const extractItinerary = async (text: string): Promise<LocationPoint[]> =
                     properties: {
                         name: { type: Type.STRING },
                         lat: { type: Type.NUMBER },
-                        lng: { type: Type.NUMBER }
+                        lng: { type: Type.NUMBER },
+                        aliases: { type: Type.ARRAY, items: { type: Type.STRING } }
                     },
                     required: ["name", "lat", "lng"]
                 }
             }
         }
-    });
-    return JSON.parse(response.text || "[]");
+    })).text || '');
 };
 
 /**
- * Core Narrative Engine: Uses gemini-3-pro-preview with thinking budget and search.
+ * Splits a data URL into Gemini inline data. The MIME type of the payload wins over the
+ * fragment's own type, since imported images are sent as JPEG analysis renditions.
+ */
+const toInlineData = (dataUrl: string, fallbackMimeType: string) => {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    return match
+        ? { mimeType: match[1], data: match[2] }
+        : { mimeType: fallbackMimeType, data: dataUrl };
+};
+
+/**
+ * Labels a fragment with its id and capture metadata so beats can cite it by `mediaId`.
+ */
+const describeFragment = (m: MediaItem): string => {
+    const captured = `captured ${m.timestamp}`;
+    const place = m.location ? ` at ${m.location.lat.toFixed(5)}, ${m.location.lng.toFixed(5)}` : '';
+    const caption = m.description ? ` "${m.description}"` : '';
+    const tags = m.tags?.length ? ` tags: ${m.tags.join(', ')}` : '';
+    return `[Fragment ${m.id}: ${m.mimeType}, ${captured}${place}${caption}${tags}]`;
+};
+
+/**
+ * States a Cut Pack's house style. Built-in and custom packs are described identically.
  */
-export const analyzeTripAndGenerateStory = async (params: { 
+const describeCutPack = (pack: CutPack): string => [
+    `- Style: ${pack.name} [${pack.category}] "${pack.promise}" (${pack.description})`,
+    `- Narrator: written to be read aloud by the ${pack.voice} voice; preferred pace ${pack.pace}`,
+    `- Visual grade: ${pack.grade}; let the imagery in the narration match it`,
+    ...(pack.sampleLines.length > 0 ? [`- Match the voice of these sample lines: ${pack.sampleLines.map(l => `"${l}"`).join(' ')}`] : [])
+].join('\n                ');
+
+/**
+ * Outlines the trip as days and moments, each listing its fragment ids in capture order.
+ */
+const describeTimeline = (media: MediaItem[]): string =>
+    buildTimeline(media).map((day, i) => [
+        `Day ${i + 1} (${day.day}):`,
+        ...day.groups.map(g => `  ${g.start} ${g.place || 'unplaced'}: ${g.items.map(m => m.id).join(', ')}`)
+    ].join('\n')).join('\n');
+
+/**
+ * Turns a fragment into prompt parts: images inline, videos as labelled keyframes
+ * plus an audio excerpt, and anything undecodable as a text reference.
+ */
+const buildFragmentParts = async (m: MediaItem): Promise<Part[]> => {
+    const label = describeFragment(m);
+    if (m.mimeType.startsWith('image')) {
+        // Encoded only now, so the vault never holds Base64 copies of its images.
+        const dataUrl = await readMediaDataUrl(m.id, 'rendition') ?? await readMediaDataUrl(m.id, 'original');
+        if (dataUrl) return [{ text: label }, { inlineData: toInlineData(dataUrl, m.mimeType) }];
+    }
+    if (m.mimeType.startsWith('video')) {
+        try {
+            const url = await getMediaUrl(m.id, ['original']);
+            if (!url) throw new Error("Original clip missing from the media store");
+            const digest = await digestVideo(url);
+            const parts: Part[] = [{ text: `${label} Video clip, ${digest.duration.toFixed(1)}s long.` }];
+            digest.keyframes.forEach(frame => {
+                parts.push({ text: `[Fragment ${m.id} @ ${frame.time}s]` });
+                parts.push({ inlineData: { data: frame.base64.split(',')[1], mimeType: 'image/jpeg' } });
+            });
+            if (digest.audioSnippet) {
+                parts.push({ text: `[Fragment ${m.id} soundtrack excerpt]` });
+                parts.push({ inlineData: { data: digest.audioSnippet, mimeType: 'audio/wav' } });
+            }
+            return parts;
+        } catch (e) {
+            console.warn(`Video digest failed for ${m.id}`, e);
+        }
+    }
+    return [{ text: `${label} [${m.source?.provider ?? 'unknown'} source, not viewable]` }];
+};
+
+export interface FragmentCaption {
+    mediaId: string;
+    description: string;
+    tags: FocusTarget[];
+}
+
+const CAPTION_BATCH_SIZE = 8;
+
+/**
+ * Vision pass: captions fragments in batches using gemini-3-flash-preview and tags each
+ * with the Key Focus vocabulary. Images are sent as their analysis rendition, videos as
+ * their poster frame; fragments with neither are skipped.
+ */
+export const captionMedia = async (media: MediaItem[], onProgress?: (done: number) => void): Promise<FragmentCaption[]> => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const captions: FragmentCaption[] = [];
+    for (let i = 0; i < media.length; i += CAPTION_BATCH_SIZE) {
+        const batch = media.slice(i, i + CAPTION_BATCH_SIZE);
+        const parts: Part[] = [];
+        for (const m of batch) {
+            const dataUrl = m.mimeType.startsWith('video')
+                ? await readMediaDataUrl(m.id, 'thumbnail')
+                : await readMediaDataUrl(m.id, 'rendition') ?? await readMediaDataUrl(m.id, 'thumbnail');
+            if (!dataUrl) continue;
+            parts.push({ text: describeFragment(m) }, { inlineData: toInlineData(dataUrl, m.mimeType) });
+        }
+        if (parts.length > 0) {
+            const batchCaptions = await requestValidJson('Captions', captionSchema, async correction => (await ai.models.generateContent({
+                model: 'gemini-3-flash-preview',
+                contents: {
+                    parts: [
+                        ...parts,
+                        { text: `Caption each fragment above in one vivid, factual sentence (under 20 words) and tag what it shows.
+                            Use only these tags: ${FOCUS_TARGETS.join(', ')}. Video fragments are shown by a single poster frame; tag them Motion.
+                            Return one entry per fragment, using its id as mediaId.` },
+                        ...(correction ? [{ text: correction }] : [])
+                    ]
+                },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                mediaId: { type: Type.STRING },
+                                description: { type: Type.STRING },
+                                tags: { type: Type.ARRAY, items: { type: Type.STRING, enum: FOCUS_TARGETS } }
+                            },
+                            required: ["mediaId", "description", "tags"]
+                        }
+                    }
+                }
+            })).text || '');
+            const ids = new Set(batch.map(m => m.id));
+            batchCaptions
+                .filter(c => ids.has(c.mediaId))
+                .forEach(c => captions.push({
+                    mediaId: c.mediaId,
+                    description: c.description.trim(),
+                    tags: (c.tags ?? []).filter((t): t is FocusTarget => (FOCUS_TARGETS as string[]).includes(t))
+                }));
+        }
+        onProgress?.(Math.min(media.length, i + CAPTION_BATCH_SIZE));
+    }
+    return captions;
+};
+
+
+interface StoryParams {
     title: string; 
     cutPack: CutPack; 
     arc: StoryArc; 
@@ -115,55 +322,131 @@ export const analyzeTripAndGenerateStory = async (params: {
     focus: FocusTarget[];
     ending: EndingStyle;
     media: MediaItem[]; 
-    itinerary: LocationPoint[] 
-}): Promise<RecallStory> => {
+    /** Further vault fragments the story may cite, described by caption and tags only. */
+    catalog?: MediaItem[];
+    itinerary: LocationPoint[];
+    /** BCP-47 code of the language to write the story in. */
+    language?: string;
+    /** Characters the narration may quote, each voiced on their own. */
+    cast?: CastMember[];
+    /** Sampling seed; different seeds give different takes on the same direction. */
+    seed?: number;
+    /** Called with each beat as soon as it has been generated; sources are only in the returned story. */
+    onBeat?: (beat: StoryBeat) => void;
+}
+
+// Video Understanding: Gemini 3 Pro multimodal processing
+// Sequential on purpose: each video digest decodes a full clip.
+const buildStoryFragmentParts = async (media: MediaItem[]): Promise<Part[]> => {
+    const parts: Part[] = [];
+    for (const m of media.slice(0, MAX_STORY_FRAGMENTS)) {
+        parts.push(...await buildFragmentParts(m));
+    }
+    return parts;
+};
+
+/**
+ * Core Narrative Engine: Uses gemini-3-pro-preview with thinking budget and search.
+ * Streams the response so beats reach `onBeat` before the whole story is written.
+ */
+export const analyzeTripAndGenerateStory = async (params: StoryParams): Promise<RecallStory> =>
+    composeStory(params, await buildStoryFragmentParts(params.media));
+
+/**
+ * Writes several takes on the same vault and itinerary, each with its own Cut Pack, arc
+ * or seed, for side-by-side comparison. Fragments are prepared once and shared; the takes
+ * are written concurrently and a failed take does not stop the others.
+ */
+export const generateStoryVariants = async (
+    params: Omit<StoryParams, 'cutPack' | 'arc' | 'seed' | 'onBeat'>,
+    variants: { cutPack: CutPack; arc: StoryArc; seed?: number }[],
+    onBeat?: (variant: number, beat: StoryBeat) => void
+): Promise<PromiseSettledResult<RecallStory>[]> => {
+    const fragmentParts = await buildStoryFragmentParts(params.media);
+    return Promise.allSettled(variants.map((v, i) =>
+        composeStory({ ...params, ...v, onBeat: beat => onBeat?.(i, beat) }, fragmentParts)
+    ));
+};
+
+const composeStory = async (params: StoryParams, fragmentParts: Part[]): Promise<RecallStory> => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const { title, cutPack, arc, pace, focus, media, itinerary } = params;
-    
-    // Video Understanding: Gemini 3 Pro multimodal processing
-    const mediaParts = media.slice(0, 15).map(m => {
-        if (m.base64 && m.mimeType.startsWith('image')) {
-            return {
-                inlineData: {
-                    data: m.base64.split(',')[1] || m.base64,
-                    mimeType: m.mimeType
-                }
-            };
-        }
-        // Videos or missing base64 are handled as references if possible, 
-        // but for this implementation we prioritize the visuals we have
-        return { text: `[Fragment: ${m.url} - ${m.source} source]` };
-    });
+    const { title, cutPack, arc, pace, focus, ending, media, itinerary, onBeat, seed, language = DEFAULT_LANGUAGE, cast = [] } = params;
+    const mediaParts: Part[] = [...fragmentParts];
+
+    // Past the inline limit, captioned fragments still reach the model as text.
+    const catalog = [...media.slice(MAX_STORY_FRAGMENTS), ...(params.catalog ?? [])]
+        .filter(m => m.description || m.tags?.length);
+    if (catalog.length > 0) {
+        mediaParts.push({ text: `Fragment catalog (not shown, described by caption):\n${catalog.map(describeFragment).join('\n')}` });
+    }
+
+    // Chronological arcs follow the vault timeline, including any clock corrections.
+    const chronological = arc.structure === 'Linear Chronological';
+    if (chronological) {
+        mediaParts.push({ text: `Trip timeline (true capture order):\n${describeTimeline([...media.slice(0, MAX_STORY_FRAGMENTS), ...catalog])}` });
+    }
 
     const itineraryContext = itinerary.map(loc => `${loc.name}`).join(" -> ");
 
+    // The arc template fixes the beat count and the job of every beat; the ending style shapes the last ones.
+    const slots = arcSlots(arc);
+    const closing = endingSlotIds(arc);
+    const template = arc.acts.map(act => [
+        `Act "${act.name}":`,
+        ...act.slots.map(slot => `  - ${slot.id} (${slot.role}): ${slot.guidance}${closing.includes(slot.id) ? ` ENDING (${ending}): ${ENDING_DIRECTIONS[ending]}` : ''}`)
+    ].join('\n')).join('\n');
+
     const prompt = {
         parts: [
-            ...mediaParts as any,
+            ...mediaParts,
             { text: `
                 System: You are the Lead Narrative Architect at REELCHEMY STUDIO.
                 Project: ${title}
                 Route: ${itineraryContext}
                 
                 NARRATIVE DIRECTION:
-                - Style: ${cutPack.name} (${cutPack.description})
-                - Structure: ${arc.name}
-                - Pacing: ${pace}
+                ${describeCutPack(cutPack)}
+                - Structure: ${arc.name} (${arc.structure})
+                - Pacing: ${pace}. Each sentence is voiced with a pause after it, so sentence length sets the rhythm.
+                - Emphasis: wrap at most a word or two per beat in *asterisks* where the narrator should lean on them.
                 - Key Focus: ${focus.join(', ')}
+                - Language: write the title and every beat in ${findLanguage(language).name}.
+                ${describeCast(cast)}
 
                 REQUIREMENTS:
                 1. Analyze visual fragments deeply (Video Understanding enabled).
                 2. Use Search Grounding to enrich the narration with actual location details.
-                3. Weave a cinematic story arc across exactly ${Math.max(4, Math.min(media.length, 10))} beats.
+                   Fragment capture times and coordinates are real; use them to order and place beats.
+                   Set each beat's mediaId to the id of the fragment that best illustrates it; catalog fragments may be cited too.
+                   Use fragment captions and tags to match beats to media, favouring fragments tagged with the Key Focus.
+                   Set locationName to the Route stop the beat takes place at, spelled exactly as listed.
+                   For video fragments, set mediaTime to the second (as labelled on its keyframes) the beat refers to.
+                   ${chronological ? 'Beats must follow the trip timeline: never cite a fragment captured before the previous beat\'s fragment.' : ''}
+                3. Follow the arc template below: exactly ${slots.length} beats, one per slot, in template order.
+                   Set each beat's slotId to the id of the slot it fills and write the beat to that slot's role.
+                   Ending: ${ending}. The beats marked ENDING must follow that direction.
                 4. Output only valid JSON.
+
+                ARC TEMPLATE:
+                ${template}
             `}
         ]
     };
 
-    const response = await ai.models.generateContent({
+    // A retry continues after the beats already handed out rather than rewriting them.
+    const continuation = (written: StoryBeat[]) => `
+                The first ${written.length} beats are already written and must stay as they are:
+                ${written.map(b => `- ${b.slotId}: ${b.text}`).join('\n')}
+                Write only the remaining ${slots.length - written.length} beats, from slot ${slots[written.length]?.id} on, continuing their indices.
+            `;
+
+    const requestStory = (correction?: string, written: StoryBeat[] = []) => ai.models.generateContentStream({
         model: 'gemini-3-pro-preview',
-        contents: prompt,
+        contents: correction ? {
+            parts: [...prompt.parts, ...(written.length > 0 ? [{ text: continuation(written) }] : []), { text: correction }]
+        } : prompt,
         config: { 
+            seed,
             tools: [{ googleSearch: {} }],
             thinkingConfig: { thinkingBudget: 32768 },
             responseMimeType: 'application/json',
@@ -179,51 +462,339 @@ export const analyzeTripAndGenerateStory = async (params: {
                                 index: { type: Type.INTEGER },
                                 text: { type: Type.STRING },
                                 locationName: { type: Type.STRING },
-                                mediaId: { type: Type.STRING }
+                                mediaId: { type: Type.STRING },
+                                mediaTime: { type: Type.NUMBER },
+                                slotId: { type: Type.STRING, enum: slots.map(slot => slot.id) },
+                                ...(cast.length > 0 ? { lines: linesResponseSchema(cast) } : {})
                             },
-                            required: ["index", "text", "locationName"]
+                            required: ["index", "text", "locationName", "slotId"]
                         }
                     }
-                }
+                },
+                // Title first, so it is known before the first beat streams in.
+                propertyOrdering: ["title", "beats"]
+            }
+        }
+    });
+
+    type RawBeat = NonNullable<ReturnType<typeof beatSchema>>;
+    const fragments = [...media, ...(params.catalog ?? [])];
+    let previousStop: number | undefined;
+    const toBeat = (b: RawBeat, i: number): StoryBeat => {
+        const match = resolveBeatLocation({
+            locationName: b.locationName,
+            media: fragments.find(m => m.id === b.mediaId),
+            position: i,
+            beatCount: slots.length,
+            itinerary,
+            previousStop
+        });
+        previousStop = match?.stopIndex ?? previousStop;
+        return {
+            index: b.index ?? i,
+            text: b.text,
+            associatedMediaId: b.mediaId,
+            mediaTime: b.mediaTime,
+            location: match?.location,
+            locationConfidence: match?.confidence,
+            // Fall back to template position when the model names an unknown slot.
+            slotId: findArcSlot(arc, b.slotId)?.id ?? slots[Math.min(i, slots.length - 1)]?.id,
+            lines: castLines(b.lines, cast),
+            audioBuffer: null
+        };
+    };
+
+    // Beats are handed out as soon as each JSON object closes, while later ones are still being written.
+    // Handed-out beats are kept: a retry is only asked for the positions after them.
+    const beats: StoryBeat[] = [];
+    let from = 0;
+    const storySchema = object({
+        title: optional(string()),
+        beats: (value, path, issues) => array(beatSchema, { min: slots.length - from })(value, path, issues)
+    });
+    // Each attempt's JSON and search grounding (which arrives with the closing chunks), for the beats it wrote.
+    const attempts: { from: number; json: string; grounding: (GroundingMetadata | undefined)[] }[] = [];
+    const story = await requestValidJson('Story', storySchema, async correction => {
+        from = beats.length;
+        const attempt = { from, json: '', grounding: [] as (GroundingMetadata | undefined)[] };
+        attempts.push(attempt);
+        const reader = createJsonArrayStream('beats');
+        let broken = false;
+        for await (const chunk of await requestStory(correction, beats.slice(0, from))) {
+            attempt.grounding.push(chunk.candidates?.[0]?.groundingMetadata);
+            for (const raw of reader.push(chunk.text || '')) {
+                // After an invalid beat, later positions are unreliable; the final check decides.
+                const b = broken ? undefined : validate(raw, beatSchema).value;
+                if (!b) { broken = true; continue; }
+                if (beats.length >= slots.length) continue;
+                beats.push(toBeat(b, beats.length));
+                onBeat?.(beats[beats.length - 1]);
             }
         }
+        attempt.json = reader.text();
+        return attempt.json;
     });
 
-    const rawJson = JSON.parse(response.text || "{}");
-    
-    const beatsWithAudio: StoryBeat[] = await Promise.all(
-        (rawJson.beats || []).map(async (b: any) => {
-            const loc = itinerary.find(l => l.name.toLowerCase().includes(b.locationName.toLowerCase())) || itinerary[b.index % (itinerary.length || 1)];
-            return {
-                index: b.index,
-                text: b.text,
-                associatedMediaId: b.mediaId,
-                location: loc,
-                audioBuffer: null
-            };
-        })
-    );
+    // Beats of the accepted attempt the stream could not hand out (e.g. recovered by repair) arrive last.
+    for (let i = beats.length; i < Math.min(slots.length, from + story.beats.length); i++) {
+        beats.push(toBeat(story.beats[i - from], i));
+        onBeat?.(beats[i]);
+    }
+
+    const sources: BeatSource[][] = [];
+    attempts.forEach((attempt, k) => {
+        const texts = beats.slice(attempt.from, attempts[k + 1]?.from ?? beats.length).map(b => b.text);
+        sources.push(...groundBeats(attempt.json, texts, attempt.grounding));
+    });
 
     return {
-        title: rawJson.title || title,
-        beats: beatsWithAudio
+        title: story.title || title,
+        language,
+        pace,
+        arcId: arc.id,
+        cutPackId: cutPack.id,
+        grade: cutPack.grade,
+        totalBeatsEstimate: slots.length,
+        cast: cast.length > 0 ? cast : undefined,
+        beats: beats.map((b, i) => sources[i].length > 0 ? { ...b, sources: sources[i] } : b)
     };
 };
 
-export const generateBeatAudio = async (text: string, voice: string): Promise<ArrayBuffer> => {
+/**
+ * Rewrites one beat following a director's note, keeping it consistent with its
+ * neighbours and its arc slot. The returned beat has no audio yet.
+ */
+export const regenerateBeat = async (params: {
+    story: RecallStory;
+    /** Position of the beat in `story.beats`. */
+    position: number;
+    note: string;
+    cutPack: CutPack;
+    arc: StoryArc;
+    ending: EndingStyle;
+    media: MediaItem[];
+    itinerary: LocationPoint[];
+}): Promise<StoryBeat> => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const { story, position, note, cutPack, arc, ending, media, itinerary } = params;
+    const beat = story.beats[position];
+    const slot = findArcSlot(arc, beat.slotId);
+    const isClosing = !!beat.slotId && endingSlotIds(arc).includes(beat.slotId);
+
+    const fragment = media.find(m => m.id === beat.associatedMediaId);
+    const fragmentParts = fragment ? await buildFragmentParts(fragment) : [];
+    const outline = story.beats.map((b, i) =>
+        `${i === position ? '>>' : '  '} Beat ${i + 1}${b.location ? ` @ ${b.location.name}` : ''}: ${i === position ? '[TO REWRITE] ' : ''}${b.text}`
+    ).join('\n');
+
+    let response: GenerateContentResponse | undefined;
+    const b = await requestValidJson('Beat rewrite', beatSchema, async correction => (response = await ai.models.generateContent({
+        model: 'gemini-3-pro-preview',
+        contents: {
+            parts: [
+                ...fragmentParts,
+                { text: `
+                System: You are the Lead Narrative Architect at REELCHEMY STUDIO, revising one beat of "${story.title}".
+                ${describeCutPack(cutPack)}
+                ${slot ? `- Slot: ${slot.act} / ${slot.role}: ${slot.guidance}` : ''}
+                ${isClosing ? `- Ending (${ending}): ${ENDING_DIRECTIONS[ending]}` : ''}
+                - Language: ${findLanguage(story.language).name}
+                ${describeCast(story.cast ?? [])}
+
+                CURRENT CUT:
+                ${outline}
+
+                DIRECTOR'S NOTE for the beat marked >>: "${note}"
+
+                Rewrite only that beat. Follow the note, keep continuity with the beats before and after it
+                (no repeated facts or phrases, no contradictions) and keep a similar length.
+                Words the narrator should lean on may be wrapped in *asterisks*, at most a word or two.
+                Keep mediaId "${beat.associatedMediaId ?? ''}" unless the note asks for a different fragment; valid ids: ${media.map(m => m.id).join(', ')}.
+                Output only valid JSON.
+            `},
+                ...(correction ? [{ text: correction }] : [])
+            ]
+        },
+        config: {
+            tools: [{ googleSearch: {} }],
+            thinkingConfig: { thinkingBudget: 8192 },
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    text: { type: Type.STRING },
+                    locationName: { type: Type.STRING },
+                    mediaId: { type: Type.STRING },
+                    mediaTime: { type: Type.NUMBER },
+                    ...(story.cast?.length ? { lines: linesResponseSchema(story.cast) } : {})
+                },
+                required: ["text", "locationName"]
+            }
+        }
+    })).text || '');
+
+    const [sources] = groundBeats(response?.text || '', [b.text], [response?.candidates?.[0]?.groundingMetadata]);
+    const mediaId = media.some(m => m.id === b.mediaId) ? b.mediaId : beat.associatedMediaId;
+    const match = resolveBeatLocation({
+        locationName: b.locationName,
+        media: media.find(m => m.id === mediaId),
+        position,
+        beatCount: story.beats.length,
+        itinerary,
+        previousStop: stopIndexOf(story.beats[position - 1]?.location, itinerary)
+    });
+    // A doubtful match does not override the place the beat already had (possibly user-confirmed).
+    const relocate = match && (!beat.location || match.confidence >= LOW_LOCATION_CONFIDENCE);
+    return {
+        ...beat,
+        text: b.text,
+        associatedMediaId: mediaId,
+        mediaTime: b.mediaTime !== undefined ? b.mediaTime : mediaId === beat.associatedMediaId ? beat.mediaTime : undefined,
+        location: relocate ? match.location : beat.location,
+        locationConfidence: relocate ? match.confidence : beat.locationConfidence,
+        sources: sources.length > 0 ? sources : undefined,
+        lines: castLines(b.lines, story.cast ?? []),
+        audioBuffer: null
+    };
+};
+
+/**
+ * Translates a story's title and narration line for line, keeping the Cut Pack's tone.
+ * The returned track has no audio yet.
+ */
+export const translateStory = async (story: RecallStory, language: string, cutPack: CutPack): Promise<NarrationTrack> => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const target = findLanguage(language);
+    const schema = object({
+        title: string({ nonEmpty: true }),
+        lines: array(string({ nonEmpty: true }), { min: story.beats.length })
+    });
+    const translation = await requestValidJson('Translation', schema, async correction => (await ai.models.generateContent({
+        model: 'gemini-3-flash-preview',
+        contents: `
+            Translate this travel film narration from ${findLanguage(story.language).name} into ${target.name}.
+            It is read aloud over the footage, so translate for the ear: natural spoken ${target.name} that keeps
+            the narrator's voice, rhythm and roughly the same length per line. Keep place names recognisable.
+            Keep *asterisk* emphasis markers, moved onto the matching words.
+            ${describeCutPack(cutPack)}
+
+            Title: ${story.title}
+            ${story.beats.map((b, i) => `Line ${i + 1}: ${b.text}`).join('\n')}
+
+            Return exactly ${story.beats.length} lines, in order.
+            ${correction ?? ''}
+        `,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    lines: { type: Type.ARRAY, items: { type: Type.STRING } }
+                },
+                required: ["title", "lines"]
+            }
+        }
+    })).text || '');
+    return {
+        language: target.code,
+        title: translation.title,
+        lines: translation.lines.slice(0, story.beats.length).map(text => ({ text, audioBuffer: null }))
+    };
+};
+
+// Raw 24 kHz PCM16 for one TTS request. `style` directs the delivery and is never spoken.
+const synthesizeSpeech = async (text: string, speechConfig: SpeechConfig, style?: string): Promise<ArrayBuffer> => {
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const response = await ai.models.generateContent({
         model: 'gemini-2.5-flash-preview-tts',
         contents: [{ parts: [{ text }] }],
         config: {
             responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } }
-            }
+            speechConfig,
+            systemInstruction: style
         }
     });
 
     const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!audioData) throw new Error("Audio generation failed");
-    return pcmToWav(base64ToArrayBuffer(audioData), 24000).arrayBuffer();
+    return base64ToArrayBuffer(audioData);
 };
+
+// The TTS model takes at most this many voices in one multi-speaker request.
+const MAX_SPEAKERS_PER_REQUEST = 2;
+
+const SAMPLE_RATE = 24000;
+
+/**
+ * Voices a beat as WAV, timed to the pace: the delivery follows the pace's rate direction,
+ * the pauses between sentences are retimed to the pace, and the beat ends on a pause.
+ * Words marked for emphasis are stressed. Each beat is one TTS request; with `dialogue`,
+ * each line is spoken by its speaker's voice: two speakers render in a single
+ * multi-speaker request, more are rendered run by run and joined. Every beat is mastered
+ * to the same loudness, since each TTS call comes back at its own level.
+ */
+export const generateBeatAudio = async (
+    text: string,
+    voice: string,
+    options: {
+        language?: string;
+        pace?: PaceLevel;
+        dialogue?: { lines: DialogueLine[]; cast: CastMember[] };
+    } = {}
+): Promise<ArrayBuffer> => {
+    const { language = DEFAULT_LANGUAGE, pace = 'Balanced', dialogue } = options;
+    const pacing = SPEECH_PACING[pace];
+    const style = (t: string) => `${pacing.rate}${hasEmphasis(t) ? ` ${EMPHASIS_DIRECTION}` : ''}`;
+    // One take, with its sentence breaks set to the pace and the model's lead-in and tail left out.
+    const paced = (pcm: ArrayBuffer, t: string) => {
+        const sentences = splitSentences(t, language).length;
+        return floatToPcm16(trimSilence(retimePauses(pcm16ToFloat(pcm), SAMPLE_RATE, sentences - 1, pacing.sentencePause), SAMPLE_RATE));
+    };
+
+    const speak = async (t: string, voiceName: string): Promise<ArrayBuffer> =>
+        paced(await synthesizeSpeech(t, { voiceConfig: { prebuiltVoiceConfig: { voiceName } }, languageCode: language }, style(t)), t);
+
+    const voiceOf = (speaker: string) => dialogue?.cast.find(c => c.name === speaker)?.voice ?? voice;
+    const speakers = [...new Set(dialogue?.lines.map(l => l.speaker) ?? [])];
+
+    let pcm: ArrayBuffer;
+    if (!dialogue || speakers.length < 2) {
+        // Lines all by one cast member are theirs to speak.
+        pcm = await speak(text, speakers.length === 1 ? voiceOf(speakers[0]) : voice);
+    } else if (speakers.length <= MAX_SPEAKERS_PER_REQUEST) {
+        const script = dialogue.lines.map(l => `${l.speaker}: ${l.text}`).join('\n');
+        pcm = paced(await synthesizeSpeech(
+            script,
+            {
+                languageCode: language,
+                multiSpeakerVoiceConfig: {
+                    speakerVoiceConfigs: speakers.map(speaker => ({ speaker, voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceOf(speaker) } } }))
+                }
+            },
+            `Voice this travel film narration between ${speakers.join(' and ')}. ${style(script)}`
+        ), text);
+    } else {
+        const runs: DialogueLine[] = [];
+        for (const line of dialogue.lines) {
+            const last = runs[runs.length - 1];
+            if (last?.speaker === line.speaker) last.text += ` ${line.text}`;
+            else runs.push({ ...line });
+        }
+        const pause = silencePcm16(pacing.sentencePause, SAMPLE_RATE);
+        const chunks: ArrayBuffer[] = [];
+        for (const run of runs) {
+            if (chunks.length > 0) chunks.push(pause);
+            chunks.push(await speak(run.text, voiceOf(run.speaker)));
+        }
+        pcm = concatPcm16(chunks);
+    }
+    const mastered = floatToPcm16(masterSpeech(pcm16ToFloat(pcm), SAMPLE_RATE));
+    return pcmToWav(concatPcm16([mastered, silencePcm16(pacing.beatPause, SAMPLE_RATE)]), SAMPLE_RATE).arrayBuffer();
+};
+
+/**
+ * A short line in the given voice, for auditioning it during casting.
+ */
+export const previewVoice = (voice: string, language: string = DEFAULT_LANGUAGE): Promise<ArrayBuffer> =>
+    generateBeatAudio('Every trip leaves a story behind. This is how it sounds in my voice.', voice, { language });
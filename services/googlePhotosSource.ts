@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaSourceProvider, RemoteMediaItem } from "./mediaSources";
+
+const PICKER_API = 'https://photospicker.googleapis.com/v1';
+const SCOPE = 'https://www.googleapis.com/auth/photospicker.mediaitems.readonly';
+const GIS_SCRIPT = 'https://accounts.google.com/gsi/client';
+const PAGE_SIZE = 50;
+// Used when a session does not say how to poll it.
+const DEFAULT_POLL_SECONDS = 5;
+const DEFAULT_PICK_TIMEOUT_SECONDS = 30 * 60;
+
+// --- Google Identity Services (only the token flow used here) ---
+
+interface TokenResponse {
+    access_token: string;
+    expires_in: number | string;
+    error?: string;
+}
+
+interface TokenClient {
+    requestAccessToken(): void;
+}
+
+interface GoogleIdentityServices {
+    accounts?: {
+        oauth2?: {
+            initTokenClient(config: {
+                client_id: string;
+                scope: string;
+                callback: (response: TokenResponse) => void;
+                error_callback?: (error: { type: string }) => void;
+            }): TokenClient;
+        };
+    };
+}
+
+// --- Picker API resources ---
+
+interface PickingSession {
+    id: string;
+    pickerUri: string;
+    /** Durations such as "5s". */
+    pollingConfig?: { pollInterval?: string; timeoutIn?: string };
+    mediaItemsSet?: boolean;
+}
+
+interface PickedMediaItem {
+    id: string;
+    createTime?: string;
+    type?: 'TYPE_UNSPECIFIED' | 'PHOTO' | 'VIDEO';
+    mediaFile: {
+        baseUrl: string;
+        mimeType: string;
+        filename: string;
+    };
+}
+
+interface PickedMediaPage {
+    mediaItems?: PickedMediaItem[];
+    nextPageToken?: string;
+}
+
+// `window.google` is shared with the Maps script, which types it loosely.
+const identityServices = (): GoogleIdentityServices | undefined => window.google;
+
+let accessToken: string | null = null;
+let tokenExpiry = 0;
+
+const loadIdentityServices = (): Promise<void> => new Promise((resolve, reject) => {
+    if (identityServices()?.accounts?.oauth2) return resolve();
+    const script = document.createElement('script');
+    script.src = GIS_SCRIPT;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Google Identity Services failed to load"));
+    document.head.appendChild(script);
+});
+
+/**
+ * Obtains (or reuses) an OAuth access token for the Photos Picker API via a consent popup.
+ */
+const authorize = async (): Promise<string> => {
+    if (accessToken && Date.now() < tokenExpiry) return accessToken;
+    await loadIdentityServices();
+    const oauth2 = identityServices()?.accounts?.oauth2;
+    if (!oauth2) throw new Error("Google Identity Services is unavailable");
+    return new Promise((resolve, reject) => {
+        const client = oauth2.initTokenClient({
+            client_id: process.env.GOOGLE_CLIENT_ID || '',
+            scope: SCOPE,
+            callback: (response) => {
+                if (response.error) return reject(new Error(`Google Photos authorization failed: ${response.error}`));
+                accessToken = response.access_token;
+                tokenExpiry = Date.now() + (Number(response.expires_in) - 60) * 1000;
+                resolve(response.access_token);
+            },
+            error_callback: (error) => reject(new Error(`Google Photos authorization failed: ${error.type}`))
+        });
+        client.requestAccessToken();
+    });
+};
+
+const authorizedFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const token = await authorize();
+    const response = await fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } });
+    if (response.status === 401) {
+        accessToken = null;
+    }
+    return response;
+};
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await authorizedFetch(`${PICKER_API}${path}`, {
+        ...init,
+        headers: { ...init.headers, 'Content-Type': 'application/json' }
+    });
+    if (!response.ok) throw new Error(`Google Photos request failed (${response.status}): ${path}`);
+    return response.json();
+};
+
+const seconds = (duration: string | undefined, fallback: number): number => {
+    const value = parseFloat(duration ?? '');
+    return Number.isFinite(value) ? value : fallback;
+};
+
+const sessions = new Map<string, PickingSession>();
+// baseUrls expire after ~60 minutes and cannot be looked up again outside the session listing.
+const baseUrls = new Map<string, string>();
+
+/**
+ * Opens the Google Photos picker for a session and resolves once the user is done picking.
+ */
+const awaitPicks = async (session: PickingSession): Promise<void> => {
+    const popup = window.open(`${session.pickerUri}/autoclose`, 'google-photos-picker', 'width=960,height=720');
+    if (!popup) throw new Error("Allow pop-ups to pick from Google Photos");
+    const interval = seconds(session.pollingConfig?.pollInterval, DEFAULT_POLL_SECONDS) * 1000;
+    const deadline = Date.now() + seconds(session.pollingConfig?.timeoutIn, DEFAULT_PICK_TIMEOUT_SECONDS) * 1000;
+    while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, interval));
+        if ((await request<PickingSession>(`/sessions/${session.id}`)).mediaItemsSet) return;
+    }
+    popup.close();
+    throw new Error("Nothing was picked in Google Photos before the session expired");
+};
+
+/**
+ * Google Photos Picker API adapter. Requires `GOOGLE_CLIENT_ID` at build time.
+ * Apps may only read what the user picks, so the one "album" is a picking session:
+ * listing it opens the picker and waits for the user's choice.
+ */
+export const googlePhotosProvider: MediaSourceProvider = {
+    id: 'google-photos',
+    label: 'Google Photos',
+    isAvailable: () => !!process.env.GOOGLE_CLIENT_ID,
+    listAlbums: async () => {
+        const session = await request<PickingSession>('/sessions', { method: 'POST', body: '{}' });
+        sessions.set(session.id, session);
+        return [{ id: session.id, title: 'Google Photos Selection' }];
+    },
+    listItems: async (sessionId, pageToken) => {
+        if (!pageToken) {
+            const session = sessions.get(sessionId);
+            if (!session) throw new Error("This Google Photos session has ended; connect again");
+            await awaitPicks(session);
+        }
+        const query = new URLSearchParams({ sessionId, pageSize: `${PAGE_SIZE}` });
+        if (pageToken) query.set('pageToken', pageToken);
+        const page = await request<PickedMediaPage>(`/mediaItems?${query}`);
+        const items: RemoteMediaItem[] = (page.mediaItems || []).map(m => {
+            baseUrls.set(m.id, m.mediaFile.baseUrl);
+            return {
+                id: m.id,
+                filename: m.mediaFile.filename,
+                mimeType: m.mediaFile.mimeType,
+                // Picked items carry no GPS; location comes from EXIF when present.
+                metadata: { timestamp: m.createTime }
+            };
+        });
+        if (!page.nextPageToken) sessions.delete(sessionId);
+        return { items, nextPageToken: page.nextPageToken };
+    },
+    fetchItem: async (item) => {
+        const baseUrl = baseUrls.get(item.id);
+        if (!baseUrl) throw new Error(`${item.filename} is no longer available; pick it again`);
+        // `=d` downloads the original image bytes, `=dv` the video.
+        const suffix = item.mimeType.startsWith('video') ? '=dv' : '=d';
+        const response = await authorizedFetch(`${baseUrl}${suffix}`);
+        if (!response.ok) throw new Error(`Google Photos download failed (${response.status}): ${item.filename}`);
+        const blob = await response.blob();
+        return {
+            file: new File([blob], item.filename, { type: item.mimeType }),
+            metadata: item.metadata
+        };
+    }
+};
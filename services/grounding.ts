@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GroundingMetadata } from "@google/genai";
+import { BeatSource } from "../types";
+
+const unescapeJson = (s: string) => {
+    try {
+        return JSON.parse(`"${s}"`) as string;
+    } catch {
+        return s.replace(/\\"/g, '"').replace(/\\n/g, ' ');
+    }
+};
+
+const squash = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+// Segment offsets are UTF-8 bytes into the response text.
+const charIndex = (raw: string, byteIndex: number) =>
+    new TextDecoder().decode(new TextEncoder().encode(raw).slice(0, byteIndex)).length;
+
+/**
+ * Attributes search grounding to beats. `raw` is the JSON text the model wrote and
+ * `texts` the beat narrations in order; each support segment is located in `raw` and
+ * credited to the beat whose text it falls in, quoting the overlap as the snippet.
+ * Metadata may arrive in several parts (one per streamed chunk); duplicates are merged.
+ */
+export function groundBeats(raw: string, texts: string[], metadata: (GroundingMetadata | undefined)[]): BeatSource[][] {
+    const byBeat = texts.map(() => new Map<string, BeatSource>());
+
+    // Where each beat's text value sits in the raw JSON, when the model escaped it the standard way.
+    let from = 0;
+    const ranges = texts.map(text => {
+        const quoted = JSON.stringify(text);
+        const at = raw.indexOf(quoted, from);
+        if (at < 0) return undefined;
+        from = at + quoted.length;
+        return { start: at + 1, end: at + quoted.length - 1 };
+    });
+
+    const credit = (beat: number, snippet: string, chunkIndices: number[], md: GroundingMetadata) => {
+        for (const ci of chunkIndices) {
+            const chunk = md.groundingChunks?.[ci];
+            const page = chunk?.web ?? chunk?.maps;
+            if (!page?.uri) continue;
+            const source = byBeat[beat].get(page.uri) ?? { uri: page.uri, title: page.title, snippets: [] };
+            if (!source.snippets.includes(snippet)) source.snippets.push(snippet);
+            byBeat[beat].set(page.uri, source);
+        }
+    };
+
+    for (const md of metadata) {
+        for (const support of md?.groundingSupports ?? []) {
+            const seg = support.segment;
+            if (!seg || !support.groundingChunkIndices?.length) continue;
+
+            let start = seg.startIndex !== undefined ? charIndex(raw, seg.startIndex) : -1;
+            let end = seg.endIndex !== undefined ? charIndex(raw, seg.endIndex) : -1;
+            if (seg.text && raw.slice(start, end) !== seg.text) {
+                start = raw.indexOf(seg.text);
+                end = start + seg.text.length;
+            }
+
+            // Prefer the located offsets; fall back to finding the quoted words in a beat.
+            const beat = start >= 0 ? ranges.findIndex(r => r && start < r.end && end > r.start) : -1;
+            if (beat >= 0) {
+                const r = ranges[beat]!;
+                const snippet = squash(unescapeJson(raw.slice(Math.max(start, r.start), Math.min(end, r.end))));
+                if (snippet) credit(beat, snippet, support.groundingChunkIndices, md!);
+            } else if (seg.text) {
+                const snippet = squash(unescapeJson(seg.text));
+                const owner = texts.findIndex(t => snippet && squash(t).includes(snippet));
+                if (owner >= 0) credit(owner, snippet, support.groundingChunkIndices, md!);
+            }
+        }
+    }
+    return byBeat.map(m => [...m.values()]);
+}
+
+/**
+ * Keeps the sources (and snippets) whose quoted narration is still in `text`, e.g. after
+ * the beat was edited, split or merged.
+ */
+export function sourcesStillSupporting(sources: BeatSource[] | undefined, text: string): BeatSource[] | undefined {
+    if (!sources) return undefined;
+    const body = squash(text);
+    const kept = sources
+        .map(s => ({ ...s, snippets: s.snippets.filter(snippet => body.includes(snippet)) }))
+        .filter(s => s.snippets.length > 0);
+    return kept.length > 0 ? kept : undefined;
+}
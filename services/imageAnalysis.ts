@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaAnalysis } from "../types";
+
+const ANALYSIS_EDGE = 128;
+// Laplacian variance at which a frame is considered fully sharp.
+const SHARPNESS_CEILING = 600;
+
+/**
+ * Creates a 2D canvas that works both on the main thread and inside workers.
+ */
+export const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+const toGrayscale = (source: CanvasImageSource, width: number, height: number): Float32Array => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D;
+    ctx.drawImage(source, 0, 0, width, height);
+    const rgba = ctx.getImageData(0, 0, width, height).data;
+    const gray = new Float32Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    }
+    return gray;
+};
+
+/**
+ * Variance of the Laplacian, normalised to 0-1. Blurry frames have little high-frequency energy.
+ */
+export function measureSharpness(gray: Float32Array, width: number, height: number): number {
+    let sum = 0;
+    let sumSq = 0;
+    let n = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+            sum += lap;
+            sumSq += lap * lap;
+            n++;
+        }
+    }
+    if (n === 0) return 0;
+    const variance = sumSq / n - (sum / n) ** 2;
+    return Math.min(1, variance / SHARPNESS_CEILING);
+}
+
+/**
+ * Scores exposure 0-1: mid-tone mean luminance with few crushed or blown pixels scores highest.
+ */
+export function measureExposure(gray: Float32Array): number {
+    if (gray.length === 0) return 0;
+    let sum = 0;
+    let clipped = 0;
+    for (const v of gray) {
+        sum += v;
+        if (v < 8 || v > 247) clipped++;
+    }
+    const mean = sum / gray.length;
+    const score = 1 - Math.abs(mean - 128) / 128 - 2 * (clipped / gray.length);
+    return Math.max(0, Math.min(1, score));
+}
+
+/**
+ * 64-bit difference hash as 16 hex characters. Visually similar frames differ in few bits.
+ */
+export function differenceHash(gray9x8: Float32Array): string {
+    let hex = '';
+    for (let row = 0; row < 8; row++) {
+        let byte = 0;
+        for (let col = 0; col < 8; col++) {
+            const left = gray9x8[row * 9 + col];
+            const right = gray9x8[row * 9 + col + 1];
+            byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Number of differing bits between two hashes produced by `differenceHash`.
+ */
+export function hammingDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+        let x = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        while (x) {
+            distance += x & 1;
+            x >>= 1;
+        }
+    }
+    return distance;
+}
+
+/**
+ * Computes sharpness, exposure and a perceptual hash for any drawable frame.
+ */
+export function analyzeFrame(source: CanvasImageSource, width: number, height: number): MediaAnalysis {
+    const scale = Math.min(1, ANALYSIS_EDGE / Math.max(width, height, 1));
+    const w = Math.max(3, Math.round(width * scale));
+    const h = Math.max(3, Math.round(height * scale));
+    const gray = toGrayscale(source, w, h);
+    return {
+        width,
+        height,
+        sharpness: measureSharpness(gray, w, h),
+        exposure: measureExposure(gray),
+        hash: differenceHash(toGrayscale(source, 9, 8))
+    };
+}
+
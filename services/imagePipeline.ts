@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageRenditions, renderRenditions } from "./imageRenditions";
+import type { ImageWorkerResponse } from "./imagePipeline.worker";
+
+/** Formats Gemini accepts inline even when this browser cannot decode them. */
+export const GEMINI_NATIVE_IMAGE_TYPES = ['image/heic', 'image/heif'];
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (r: ImageRenditions) => void; reject: (e: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+    if (worker || typeof Worker === 'undefined') return worker;
+    worker = new Worker(new URL('./imagePipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ImageWorkerResponse>) => {
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+        if ('error' in e.data) request.reject(new Error(e.data.error));
+        else request.resolve(e.data);
+    };
+    worker.onerror = (e) => {
+        // A crashed worker fails everything in flight; the next call starts a fresh one.
+        pending.forEach(r => r.reject(new Error(e.message || "Image worker crashed")));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+const inWorker = (file: Blob): Promise<ImageRenditions> => new Promise((resolve, reject) => {
+    const w = getWorker();
+    if (!w) return reject(new Error("Workers unavailable"));
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    w.postMessage({ id, file });
+});
+
+const onMainThread = async (file: Blob): Promise<ImageRenditions> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+        return await renderRenditions(img, img.naturalWidth, img.naturalHeight);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Decodes an image off the main thread and produces its thumbnail, analysis rendition
+ * and quality metrics. Falls back to `<img>` decoding, which covers formats only the
+ * page can decode (e.g. HEIC in Safari). Rejects when the browser cannot decode the file.
+ */
+export const processImage = async (file: Blob): Promise<ImageRenditions> => {
+    try {
+        return await inWorker(file);
+    } catch (workerError) {
+        console.warn("Worker decode failed, retrying on main thread", workerError);
+        return onMainThread(file);
+    }
+};
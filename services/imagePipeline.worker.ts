@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaAnalysis } from "../types";
+import { renderRenditions } from "./imageRenditions";
+
+export interface ImageWorkerRequest {
+    id: number;
+    file: Blob;
+}
+
+export type ImageWorkerResponse =
+    | { id: number; thumbnail: Blob; rendition: Blob; analysis: MediaAnalysis }
+    | { id: number; error: string };
+
+const scope = self as unknown as {
+    onmessage: ((e: MessageEvent<ImageWorkerRequest>) => void) | null;
+    postMessage: (message: ImageWorkerResponse) => void;
+};
+
+scope.onmessage = async (e) => {
+    const { id, file } = e.data;
+    try {
+        // Honour EXIF orientation so portrait phone shots are not rendered sideways.
+        const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+        const renditions = await renderRenditions(bitmap, bitmap.width, bitmap.height);
+        bitmap.close();
+        scope.postMessage({ id, ...renditions });
+    } catch (err) {
+        scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+    }
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaAnalysis } from "../types";
+import { analyzeFrame, createCanvas } from "./imageAnalysis";
+
+/** Longest edge of vault grid thumbnails. */
+export const THUMBNAIL_EDGE = 320;
+/** Longest edge of the copy sent to Gemini; keeps a 15-fragment request well under inline limits. */
+export const ANALYSIS_RENDITION_EDGE = 1536;
+
+export interface ImageRenditions {
+    thumbnail: Blob;
+    /** Bounded JPEG for the narrative engine. */
+    rendition: Blob;
+    analysis: MediaAnalysis;
+}
+
+const encodeJpeg = async (canvas: OffscreenCanvas | HTMLCanvasElement, quality: number): Promise<Blob> => {
+    if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: 'image/jpeg', quality });
+    return new Promise((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error("JPEG encoding failed")), 'image/jpeg', quality)
+    );
+};
+
+const scaled = async (source: CanvasImageSource, width: number, height: number, maxEdge: number, quality: number): Promise<Blob> => {
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    const canvas = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    // JPEG has no alpha; flatten transparent PNG/WebP onto black like the vault background.
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return encodeJpeg(canvas, quality);
+};
+
+/**
+ * Renders the thumbnail and analysis rendition of a decoded frame and measures its quality.
+ * Runs unchanged in the image worker or, as a fallback, on the main thread.
+ */
+export const renderRenditions = async (source: CanvasImageSource, width: number, height: number): Promise<ImageRenditions> => ({
+    thumbnail: await scaled(source, width, height, THUMBNAIL_EDGE, 0.7),
+    rendition: await scaled(source, width, height, ANALYSIS_RENDITION_EDGE, 0.85),
+    analysis: analyzeFrame(source, width, height)
+});
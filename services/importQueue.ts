@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaItem } from "../types";
+import { ImportJob, UnsupportedMediaError, createMediaItem } from "./mediaImport";
+
+export const DEFAULT_IMPORT_CONCURRENCY = 3;
+
+export type ImportStatus = 'queued' | 'importing' | 'done' | 'unsupported' | 'failed';
+
+export interface ImportProgress {
+    id: string;
+    name: string;
+    status: ImportStatus;
+    /** 0-1 while importing. */
+    progress: number;
+    error?: string;
+}
+
+export interface ImportQueueOptions {
+    concurrency?: number;
+    /** Called whenever a job changes state. */
+    onUpdate: (progress: ImportProgress) => void;
+    /** Called as soon as each fragment is ready, so the vault fills while the queue runs. */
+    onImported: (item: MediaItem) => void;
+}
+
+export interface ImportSummary {
+    imported: number;
+    failed: ImportProgress[];
+}
+
+const errorMessage = (e: unknown): string => e instanceof Error ? e.message : String(e);
+
+/**
+ * Imports jobs with at most `concurrency` files in flight. Jobs are listed eagerly
+ * (so every file shows as queued) while downloads and decoding are bounded.
+ * A failing file is reported through `onUpdate` and never stops the rest of the queue.
+ */
+export const runImportQueue = async (jobs: AsyncIterable<ImportJob>, options: ImportQueueOptions): Promise<ImportSummary> => {
+    const { concurrency = DEFAULT_IMPORT_CONCURRENCY, onUpdate, onImported } = options;
+    const pending: ImportJob[] = [];
+    const failed: ImportProgress[] = [];
+    let imported = 0;
+    let listing = true;
+    let waiters: (() => void)[] = [];
+    const wake = () => {
+        waiters.forEach(w => w());
+        waiters = [];
+    };
+
+    const fail = (progress: ImportProgress) => {
+        failed.push(progress);
+        onUpdate(progress);
+    };
+
+    const producer = (async () => {
+        try {
+            for await (const job of jobs) {
+                pending.push(job);
+                onUpdate({ id: job.id, name: job.name, status: 'queued', progress: 0 });
+                wake();
+            }
+        } catch (e) {
+            // The job source itself failed (e.g. an album page could not be listed).
+            fail({ id: `listing-${Date.now()}`, name: 'Album listing', status: 'failed', progress: 0, error: errorMessage(e) });
+        } finally {
+            listing = false;
+            wake();
+        }
+    })();
+
+    const runJob = async (job: ImportJob) => {
+        onUpdate({ id: job.id, name: job.name, status: 'importing', progress: 0 });
+        try {
+            const entry = await job.load();
+            const item = await createMediaItem(entry, `media-${Date.now()}-${job.id}`, fraction =>
+                onUpdate({ id: job.id, name: job.name, status: 'importing', progress: fraction })
+            );
+            onImported(item);
+            imported++;
+            onUpdate({ id: job.id, name: job.name, status: 'done', progress: 1 });
+        } catch (e) {
+            console.warn(`Import failed: ${job.name}`, e);
+            fail({
+                id: job.id,
+                name: job.name,
+                status: e instanceof UnsupportedMediaError ? 'unsupported' : 'failed',
+                progress: 0,
+                error: errorMessage(e)
+            });
+        }
+    };
+
+    const worker = async () => {
+        while (true) {
+            const job = pending.shift();
+            if (job) {
+                await runJob(job);
+            } else if (listing) {
+                await new Promise<void>(resolve => waiters.push(resolve));
+            } else {
+                return;
+            }
+        }
+    };
+
+    await Promise.all([producer, ...Array.from({ length: Math.max(1, concurrency) }, worker)]);
+    return { imported, failed };
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Incrementally reads a streamed JSON object and hands back each element of the array
+ * stored under `key` as soon as the element is complete, e.g. beats from
+ * `{"title": "...", "beats": [{...}, {...}`. Only a top-level key is watched.
+ */
+export const createJsonArrayStream = (key: string) => {
+    let buffer = '';
+    let cursor = 0;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    // Depth at which the watched array's elements live, once its opening bracket is seen.
+    let arrayDepth = -1;
+    let elementStart = -1;
+    let lastKey = '';
+    let stringStart = -1;
+
+    const push = (chunk: string): unknown[] => {
+        buffer += chunk;
+        const completed: unknown[] = [];
+        for (; cursor < buffer.length; cursor++) {
+            const c = buffer[cursor];
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (c === '\\') escaped = true;
+                else if (c === '"') {
+                    inString = false;
+                    // Remember top-level keys so we know which array we are entering.
+                    if (depth === 1) lastKey = buffer.slice(stringStart + 1, cursor);
+                }
+                continue;
+            }
+            if (c === '"') {
+                inString = true;
+                stringStart = cursor;
+            } else if (c === '{' || c === '[') {
+                if (c === '[' && depth === 1 && lastKey === key) arrayDepth = depth + 1;
+                if (c === '{' && depth === arrayDepth) elementStart = cursor;
+                depth++;
+            } else if (c === '}' || c === ']') {
+                depth--;
+                if (c === '}' && depth === arrayDepth && elementStart >= 0) {
+                    try {
+                        completed.push(JSON.parse(buffer.slice(elementStart, cursor + 1)));
+                    } catch (e) {
+                        console.warn("Skipping unparseable streamed element", e);
+                    }
+                    elementStart = -1;
+                }
+                if (c === ']' && depth === arrayDepth - 1) arrayDepth = -1;
+            }
+        }
+        return completed;
+    };
+
+    return {
+        push,
+        /** Everything received so far, for parsing the complete document at the end. */
+        text: () => buffer
+    };
+};
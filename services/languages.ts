@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface NarrationLanguage {
+    /** BCP-47 code, passed to speech synthesis. */
+    code: string;
+    /** English name, used in prompts. */
+    name: string;
+    /** Name in the language itself, shown in pickers. */
+    native: string;
+}
+
+/** Languages the narrator voices can speak. */
+export const NARRATION_LANGUAGES: NarrationLanguage[] = [
+    { code: 'en-US', name: 'English', native: 'English' },
+    { code: 'es-ES', name: 'Spanish', native: 'Español' },
+    { code: 'fr-FR', name: 'French', native: 'Français' },
+    { code: 'de-DE', name: 'German', native: 'Deutsch' },
+    { code: 'it-IT', name: 'Italian', native: 'Italiano' },
+    { code: 'pt-BR', name: 'Portuguese', native: 'Português' },
+    { code: 'nl-NL', name: 'Dutch', native: 'Nederlands' },
+    { code: 'ja-JP', name: 'Japanese', native: '日本語' },
+    { code: 'ko-KR', name: 'Korean', native: '한국어' },
+    { code: 'hi-IN', name: 'Hindi', native: 'हिन्दी' },
+    { code: 'ar-EG', name: 'Arabic', native: 'العربية' },
+    { code: 'ru-RU', name: 'Russian', native: 'Русский' }
+];
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const findLanguage = (code: string | undefined): NarrationLanguage =>
+    NARRATION_LANGUAGES.find(l => l.code === code) ?? NARRATION_LANGUAGES[0];
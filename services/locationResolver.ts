@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LocationPoint, MediaItem } from "../types";
+import { distanceKm } from "./mediaMetadata";
+
+/** Beats resolved below this confidence are flagged for the user to confirm. */
+export const LOW_LOCATION_CONFIDENCE = 0.6;
+
+// How much each kind of evidence can establish on its own (combined as a noisy-OR).
+const NAME_WEIGHT = 0.85;
+const GPS_WEIGHT = 0.8;
+const ROUTE_WEIGHT = 0.3;
+// A fragment this close to a stop counts as taken there; the score halves every GPS_HALF_KM beyond.
+const GPS_EXACT_KM = 1;
+const GPS_HALF_KM = 5;
+
+export interface LocationMatch {
+    location: LocationPoint;
+    /** Index of the stop in the itinerary, for keeping later beats in route order. */
+    stopIndex: number;
+    /** 0-1. */
+    confidence: number;
+}
+
+// Folds case, width and diacritics but keeps letters of every script ("東京", "Москва").
+const normalize = (s: string) => s
+    .normalize('NFKD').replace(/\p{M}/gu, '')
+    .toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const bigrams = (s: string) => {
+    const grams: string[] = [];
+    for (let i = 0; i < s.length - 1; i++) grams.push(s.slice(i, i + 2));
+    return grams;
+};
+
+/**
+ * 0-1 similarity of two place names. Identical or whole-word containment ("Shibuya" in
+ * "Shibuya Crossing, Tokyo") scores high; otherwise bigram overlap tolerates spelling.
+ */
+export function nameSimilarity(a: string, b: string): number {
+    const x = normalize(a);
+    const y = normalize(b);
+    if (!x || !y) return 0;
+    if (x === y) return 1;
+    const xs = x.split(' ');
+    const ys = y.split(' ');
+    if (xs.every(t => ys.includes(t)) || ys.every(t => xs.includes(t))) return 0.9;
+    const gx = bigrams(x.replace(/ /g, ''));
+    const gy = bigrams(y.replace(/ /g, ''));
+    const pool = [...gy];
+    let shared = 0;
+    for (const g of gx) {
+        const at = pool.indexOf(g);
+        if (at >= 0) { shared++; pool.splice(at, 1); }
+    }
+    return gx.length + gy.length === 0 ? 0 : (2 * shared) / (gx.length + gy.length);
+}
+
+const nameScore = (name: string, stop: LocationPoint) =>
+    Math.max(...[stop.name, ...(stop.aliases ?? [])].map(n => nameSimilarity(name, n)));
+
+const gpsScore = (at: { lat: number; lng: number }, stop: LocationPoint) => {
+    const d = distanceKm(at, stop);
+    return d <= GPS_EXACT_KM ? 1 : Math.pow(0.5, (d - GPS_EXACT_KM) / GPS_HALF_KM);
+};
+
+/**
+ * Where the beat sits along the route: stops near its share of the story score high,
+ * and stops before the previous beat's stop are penalised, since stories rarely go back.
+ */
+const routeScore = (stopIndex: number, stops: number, position: number, beatCount: number, previousStop?: number) => {
+    const expected = beatCount > 1 ? (position / (beatCount - 1)) * (stops - 1) : 0;
+    const closeness = 1 - Math.abs(stopIndex - expected) / Math.max(1, stops - 1);
+    return previousStop !== undefined && stopIndex < previousStop ? closeness * 0.5 : closeness;
+};
+
+/**
+ * Picks the itinerary stop for a beat from the place the model named (matched against
+ * stop names and aliases), the GPS of the beat's fragment and its position along the
+ * route. Confidence drops when the evidence is thin or two stops are nearly tied.
+ */
+export function resolveBeatLocation(params: {
+    locationName?: string;
+    media?: MediaItem;
+    position: number;
+    beatCount: number;
+    itinerary: LocationPoint[];
+    /** Stop index of the previous beat. */
+    previousStop?: number;
+}): LocationMatch | undefined {
+    const { locationName, media, position, beatCount, itinerary, previousStop } = params;
+    if (itinerary.length === 0) return undefined;
+
+    const scored = itinerary.map((stop, i) => {
+        const evidence = [
+            locationName ? NAME_WEIGHT * nameScore(locationName, stop) : 0,
+            media?.location ? GPS_WEIGHT * gpsScore(media.location, stop) : 0,
+            ROUTE_WEIGHT * routeScore(i, itinerary.length, position, beatCount, previousStop)
+        ];
+        return { stopIndex: i, score: 1 - evidence.reduce((p, e) => p * (1 - e), 1) };
+    }).sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scored;
+    // A near tie means the evidence does not really decide between the two stops.
+    const tied = runnerUp && best.score - runnerUp.score < 0.1;
+    return {
+        location: itinerary[best.stopIndex],
+        stopIndex: best.stopIndex,
+        confidence: tied ? best.score * 0.75 : best.score
+    };
+}
+
+/** Position of a beat's stop in the itinerary, if it is one of the stops. */
+export const stopIndexOf = (location: LocationPoint | undefined, itinerary: LocationPoint[]): number | undefined => {
+    if (!location) return undefined;
+    const i = itinerary.findIndex(l => l.name === location.name && l.lat === location.lat && l.lng === location.lng);
+    return i >= 0 ? i : undefined;
+};
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaAnalysis, MediaItem, MediaSourceRef } from "../types";
+import { GEMINI_NATIVE_IMAGE_TYPES, processImage } from "./imagePipeline";
+import { renderRenditions } from "./imageRenditions";
+import { CaptureMetadata, readCaptureMetadata } from "./mediaMetadata";
+import { putMediaBlobs } from "./mediaStore";
+import { MEDIA_EXTENSION, MediaAlbum, MediaSourceProvider, iterateAlbum, mimeFromName } from "./mediaSources";
+import { captureVideoFrame } from "./videoDigest";
+
+export interface ImportEntry {
+    file: File;
+    source: MediaSourceRef;
+    /** Provider-supplied metadata; takes precedence over what is embedded in the file. */
+    metadata?: CaptureMetadata;
+}
+
+/**
+ * A single file waiting to be imported. Loading is deferred so downloads run inside the queue.
+ */
+export interface ImportJob {
+    id: string;
+    name: string;
+    load: () => Promise<ImportEntry>;
+}
+
+/**
+ * Thrown for files the vault cannot hold, so the queue can report them distinctly.
+ */
+export class UnsupportedMediaError extends Error {
+    constructor(name: string, reason: string) {
+        super(`${name}: ${reason}`);
+        this.name = 'UnsupportedMediaError';
+    }
+}
+
+/**
+ * Fills in a MIME type from the file name when the browser did not supply one,
+ * and rejects anything that is not an image or video.
+ */
+export const normalizeMediaFile = (file: File): File => {
+    if (file.type.startsWith('image') || file.type.startsWith('video')) return file;
+    if (!file.type && MEDIA_EXTENSION.test(file.name)) {
+        return new File([file], file.name, { type: mimeFromName(file.name), lastModified: file.lastModified });
+    }
+    throw new UnsupportedMediaError(file.name, `unsupported file type${file.type ? ` (${file.type})` : ''}`);
+};
+
+// Largest undecodable-but-Gemini-native original that may be sent inline as-is.
+const NATIVE_PASSTHROUGH_BYTES = 6 * 1024 * 1024;
+
+interface Renditions {
+    thumbnail?: Blob;
+    rendition?: Blob;
+    analysis?: MediaAnalysis;
+}
+
+const imageRenditions = async (file: File): Promise<Renditions> => {
+    try {
+        return await processImage(file);
+    } catch (e) {
+        // e.g. HEIC in Chromium: the browser cannot decode it but Gemini can read it directly.
+        if (GEMINI_NATIVE_IMAGE_TYPES.includes(file.type) && file.size <= NATIVE_PASSTHROUGH_BYTES) {
+            return { rendition: file };
+        }
+        throw new UnsupportedMediaError(file.name, 'image is corrupt or cannot be decoded in this browser');
+    }
+};
+
+const videoRenditions = async (file: File): Promise<Renditions> => {
+    const url = URL.createObjectURL(file);
+    try {
+        // A clip that cannot be decoded or stalls fails the import, so the queue reports it.
+        const frame = await captureVideoFrame(url);
+        try {
+            const { thumbnail, analysis } = await renderRenditions(frame, frame.width, frame.height);
+            return { thumbnail, analysis };
+        } catch (e) {
+            // The clip itself plays; the vault shows a placeholder poster.
+            console.warn("Video poster unavailable", e);
+            return {};
+        }
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Turns an imported file into a vault fragment and writes its blobs to the media store:
+ * the original for playback and export, a thumbnail for the vault grid and, for images,
+ * the bounded analysis rendition the narrative engine receives.
+ */
+export const createMediaItem = async (entry: ImportEntry, id: string, onProgress?: (fraction: number) => void): Promise<MediaItem> => {
+    const { source, metadata } = entry;
+    const file = normalizeMediaFile(entry.file);
+    const embedded = await readCaptureMetadata(file);
+    onProgress?.(0.2);
+    const { thumbnail, rendition, analysis } = file.type.startsWith('image')
+        ? await imageRenditions(file)
+        : await videoRenditions(file);
+    onProgress?.(0.8);
+    await putMediaBlobs(id, { original: file, thumbnail, rendition });
+    onProgress?.(1);
+    return {
+        id,
+        mimeType: file.type,
+        timestamp: metadata?.timestamp || embedded.timestamp || new Date(file.lastModified || Date.now()).toISOString(),
+        location: metadata?.location || embedded.location,
+        source,
+        analysis
+    };
+};
+
+let importRuns = 0;
+
+/**
+ * Lists every item of a provider album as import jobs; bytes are fetched when each job runs.
+ * Job ids carry a per-run prefix, so importing the same album twice never reuses a progress row.
+ */
+export async function* albumJobs(provider: MediaSourceProvider, album: MediaAlbum): AsyncGenerator<ImportJob> {
+    const source: MediaSourceRef = { provider: provider.id, albumId: album.id, albumTitle: album.title };
+    const run = ++importRuns;
+    for await (const item of iterateAlbum(provider, album.id)) {
+        yield {
+            id: `${provider.id}-${run}-${item.id}`,
+            name: item.filename,
+            load: async () => {
+                const fetched = await provider.fetchItem(item);
+                return { file: fetched.file, source, metadata: fetched.metadata ?? item.metadata };
+            }
+        };
+    }
+}
+
+// --- Drag and drop ---
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+    new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const walkEntry = async (entry: FileSystemEntry, files: File[]): Promise<void> => {
+    // Skip dotfiles such as .DS_Store that folders inevitably carry.
+    if (entry.name.startsWith('.')) return;
+    if (entry.isFile) {
+        const file = await entryFile(entry as FileSystemFileEntry);
+        files.push(Object.assign(file, { relativePath: entry.fullPath.replace(/^\//, '') }));
+        return;
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        // readEntries returns results in batches until it yields an empty array.
+        let batch = await readEntries(reader);
+        while (batch.length > 0) {
+            for (const child of batch) await walkEntry(child, files);
+            batch = await readEntries(reader);
+        }
+    }
+};
+
+/**
+ * Collects dropped files, descending into dropped folders.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    // Entries must be captured synchronously; the DataTransfer is emptied after the event.
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((e): e is FileSystemEntry => !!e);
+    if (entries.length === 0) return Array.from(dataTransfer.files);
+    const files: File[] = [];
+    for (const entry of entries) await walkEntry(entry, files);
+    return files;
+};
@@ -0,0 +1,334 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LocationPoint, MediaItem } from "../types";
+
+export interface CaptureMetadata {
+    timestamp?: string;
+    location?: LocationPoint;
+}
+
+// EXIF lives in the first APP1 segment of a JPEG; HEIC keeps it near the front of the file.
+const IMAGE_SCAN_BYTES = 512 * 1024;
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch.
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+type TiffValue = string | number | number[];
+
+/**
+ * Formats coordinates as a human-readable place label, e.g. "36.6282° N, 14.4846° E".
+ */
+export function formatCoordinates(lat: number, lng: number): string {
+    const ns = lat >= 0 ? 'N' : 'S';
+    const ew = lng >= 0 ? 'E' : 'W';
+    return `${Math.abs(lat).toFixed(4)}° ${ns}, ${Math.abs(lng).toFixed(4)}° ${ew}`;
+}
+
+function toLocation(lat: number, lng: number): LocationPoint | undefined {
+    if (!isFinite(lat) || !isFinite(lng)) return undefined;
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+    // Cameras without a fix frequently write 0/0 rather than omitting the tag.
+    if (lat === 0 && lng === 0) return undefined;
+    return { name: formatCoordinates(lat, lng), lat, lng, description: 'Captured on device' };
+}
+
+/**
+ * Converts an EXIF date ("YYYY:MM:DD HH:MM:SS") to ISO 8601.
+ * Without an explicit offset the value is interpreted as the browser's local time.
+ */
+export function parseExifDate(value: string, offset?: string): string | undefined {
+    const m = value.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!m) return undefined;
+    const [, y, mo, d, h, mi, s] = m;
+    if (y === '0000') return undefined;
+    const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset.trim())
+        ? new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset.trim()}`)
+        : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// --- TIFF / EXIF ---
+
+function readTiffValue(view: DataView, tiffStart: number, entry: number, little: boolean): TiffValue | undefined {
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const unitSize = type === 3 ? 2 : type === 4 ? 4 : type === 5 || type === 10 ? 8 : 1;
+    const valueOffset = count * unitSize > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + count * unitSize > view.byteLength) return undefined;
+
+    switch (type) {
+        case 2: {
+            let str = '';
+            for (let i = 0; i < count; i++) {
+                const c = view.getUint8(valueOffset + i);
+                if (c === 0) break;
+                str += String.fromCharCode(c);
+            }
+            return str;
+        }
+        case 3:
+            return view.getUint16(valueOffset, little);
+        case 4:
+            return view.getUint32(valueOffset, little);
+        case 5:
+        case 10: {
+            const values: number[] = [];
+            for (let i = 0; i < count; i++) {
+                const o = valueOffset + i * 8;
+                const num = type === 5 ? view.getUint32(o, little) : view.getInt32(o, little);
+                const den = type === 5 ? view.getUint32(o + 4, little) : view.getInt32(o + 4, little);
+                values.push(den === 0 ? 0 : num / den);
+            }
+            return values;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, TiffValue> {
+    const tags = new Map<number, TiffValue>();
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return tags;
+    const count = view.getUint16(start, little);
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const value = readTiffValue(view, tiffStart, entry, little);
+        if (value !== undefined) tags.set(view.getUint16(entry, little), value);
+    }
+    return tags;
+}
+
+function dmsToDecimal(dms: TiffValue | undefined, ref: TiffValue | undefined): number {
+    if (!Array.isArray(dms) || dms.length === 0) return NaN;
+    const [deg = 0, min = 0, sec = 0] = dms;
+    const value = deg + min / 60 + sec / 3600;
+    return ref === 'S' || ref === 'W' ? -value : value;
+}
+
+/**
+ * Parses a TIFF structure (the payload of an EXIF block) into capture metadata.
+ */
+export function parseTiff(view: DataView, tiffStart: number): CaptureMetadata {
+    const order = view.getUint16(tiffStart);
+    if (order !== 0x4949 && order !== 0x4d4d) return {};
+    const little = order === 0x4949;
+    if (view.getUint16(tiffStart + 2, little) !== 0x002a) return {};
+
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    const exif = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, little) : new Map<number, TiffValue>();
+    const gps = typeof gpsPointer === 'number' ? readIfd(view, tiffStart, gpsPointer, little) : new Map<number, TiffValue>();
+
+    const original = exif.get(TAG_DATETIME_ORIGINAL) ?? ifd0.get(TAG_DATETIME);
+    const offset = exif.get(TAG_OFFSET_TIME_ORIGINAL);
+    const timestamp = typeof original === 'string'
+        ? parseExifDate(original, typeof offset === 'string' ? offset : undefined)
+        : undefined;
+
+    const location = gps.size > 0
+        ? toLocation(
+            dmsToDecimal(gps.get(TAG_GPS_LAT), gps.get(TAG_GPS_LAT_REF)),
+            dmsToDecimal(gps.get(TAG_GPS_LNG), gps.get(TAG_GPS_LNG_REF))
+        )
+        : undefined;
+
+    return { timestamp, location };
+}
+
+function findTiffInJpeg(view: DataView): number {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) return -1;
+        const marker = view.getUint8(offset + 1);
+        // Start of scan: no metadata segments follow.
+        if (marker === 0xda) return -1;
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            return offset + 10;
+        }
+        offset += 2 + length;
+    }
+    return -1;
+}
+
+// HEIC/AVIF/PNG/WebP embed the same "Exif\0\0" + TIFF payload inside their own containers.
+function findTiffByScan(bytes: Uint8Array): number {
+    for (let i = 0; i + 10 <= bytes.length; i++) {
+        if (bytes[i] !== 0x45 || bytes[i + 1] !== 0x78 || bytes[i + 2] !== 0x69 || bytes[i + 3] !== 0x66) continue;
+        if (bytes[i + 4] !== 0 || bytes[i + 5] !== 0) continue;
+        const t = i + 6;
+        if ((bytes[t] === 0x49 && bytes[t + 1] === 0x49 && bytes[t + 2] === 0x2a) ||
+            (bytes[t] === 0x4d && bytes[t + 1] === 0x4d && bytes[t + 3] === 0x2a)) {
+            return t;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Extracts EXIF capture time and GPS from an image's leading bytes.
+ */
+export function parseImageMetadata(buffer: ArrayBuffer): CaptureMetadata {
+    const view = new DataView(buffer);
+    if (view.byteLength < 12) return {};
+    const isJpeg = view.getUint16(0) === 0xffd8;
+    let tiffStart = isJpeg ? findTiffInJpeg(view) : -1;
+    if (tiffStart < 0) tiffStart = findTiffByScan(new Uint8Array(buffer));
+    if (tiffStart < 0) return {};
+    try {
+        return parseTiff(view, tiffStart);
+    } catch (e) {
+        console.warn("EXIF block could not be parsed", e);
+        return {};
+    }
+}
+
+// --- QuickTime / MP4 ---
+
+/**
+ * Parses an ISO 6709 location string ("+37.7749-122.4194+010.000/").
+ */
+export function parseIso6709(value: string): LocationPoint | undefined {
+    const m = value.match(/([+-]\d{1,2}(?:\.\d+)?)([+-]\d{1,3}(?:\.\d+)?)/);
+    if (!m) return undefined;
+    return toLocation(parseFloat(m[1]), parseFloat(m[2]));
+}
+
+function findAtom(view: DataView, start: number, end: number, type: string): { start: number; end: number } | null {
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        const name = String.fromCharCode(view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6), view.getUint8(offset + 7));
+        let header = 8;
+        if (size === 1 && offset + 16 <= end) {
+            size = Number(view.getBigUint64(offset + 8));
+            header = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < header) return null;
+        if (name === type) return { start: offset + header, end: Math.min(offset + size, end) };
+        offset += size;
+    }
+    return null;
+}
+
+/**
+ * Extracts capture time and location from the bytes of a QuickTime `moov` atom.
+ */
+export function parseMoovMetadata(moov: ArrayBuffer): CaptureMetadata {
+    const view = new DataView(moov);
+    let timestamp: string | undefined;
+
+    // Apple devices store a local creation date with offset and an ISO 6709 location
+    // as `mdta` metadata; scanning the decoded atom is enough to find both.
+    const text = new TextDecoder('latin1').decode(new Uint8Array(moov));
+    const appleDate = text.match(/(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})([+-]\d{2}):?(\d{2})/);
+    if (appleDate) {
+        const date = new Date(`${appleDate[1]}${appleDate[2]}:${appleDate[3]}`);
+        if (!isNaN(date.getTime())) timestamp = date.toISOString();
+    }
+
+    if (!timestamp) {
+        const mvhd = findAtom(view, 0, view.byteLength, 'mvhd');
+        if (mvhd && mvhd.start + 12 <= mvhd.end) {
+            const version = view.getUint8(mvhd.start);
+            const seconds = version === 1
+                ? Number(view.getBigUint64(mvhd.start + 4))
+                : view.getUint32(mvhd.start + 4);
+            // Many encoders leave creation_time at zero.
+            if (seconds > QUICKTIME_EPOCH_OFFSET) {
+                timestamp = new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000).toISOString();
+            }
+        }
+    }
+
+    const iso6709 = text.match(/[+-]\d{1,2}(?:\.\d+)?[+-]\d{1,3}(?:\.\d+)?(?:[+-]\d+(?:\.\d+)?)?\//);
+    const location = iso6709 ? parseIso6709(iso6709[0]) : undefined;
+
+    return { timestamp, location };
+}
+
+async function readVideoMetadata(file: Blob): Promise<CaptureMetadata> {
+    // Walk the top-level atoms by header only; `moov` may sit after a multi-GB `mdat`.
+    let offset = 0;
+    while (offset + 8 <= file.size) {
+        const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+        let size = header.getUint32(0);
+        const type = String.fromCharCode(header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7));
+        let headerSize = 8;
+        if (size === 1 && header.byteLength >= 16) {
+            size = Number(header.getBigUint64(8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = file.size - offset;
+        }
+        if (size < headerSize) break;
+        if (type === 'moov') {
+            return parseMoovMetadata(await file.slice(offset + headerSize, offset + size).arrayBuffer());
+        }
+        offset += size;
+    }
+    return {};
+}
+
+/**
+ * Reads capture time and GPS position embedded in a photo (EXIF) or video (QuickTime).
+ * Never throws: unreadable or metadata-free files resolve to an empty result.
+ */
+export const readCaptureMetadata = async (file: Blob): Promise<CaptureMetadata> => {
+    try {
+        if (file.type.startsWith('video')) {
+            return await readVideoMetadata(file);
+        }
+        return parseImageMetadata(await file.slice(0, IMAGE_SCAN_BYTES).arrayBuffer());
+    } catch (e) {
+        console.warn("Capture metadata unavailable", e);
+        return {};
+    }
+};
+
+/**
+ * Derives a chronological route from geotagged fragments, collapsing consecutive
+ * captures that sit within `mergeRadiusKm` of each other into one stop.
+ */
+export function deriveItineraryFromMedia(media: MediaItem[], mergeRadiusKm: number = 1): LocationPoint[] {
+    const geotagged = media
+        .filter(m => m.location)
+        .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const stops: LocationPoint[] = [];
+    for (const m of geotagged) {
+        const loc = m.location!;
+        const last = stops[stops.length - 1];
+        if (last && distanceKm(last, loc) <= mergeRadiusKm) continue;
+        stops.push(loc);
+    }
+    return stops;
+}
+
+/**
+ * Great-circle distance between two points in kilometres.
+ */
+export function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+    const R = 6371;
+    const dLat = (b.lat - a.lat) * Math.PI / 180;
+    const dLng = (b.lng - a.lng) * Math.PI / 180;
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+    return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
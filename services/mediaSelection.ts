@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FocusTarget, MediaItem } from "../types";
+import { hammingDistance } from "./imageAnalysis";
+import { distanceKm } from "./mediaMetadata";
+
+/** Upper bound on fragments sent inline to the narrative engine. */
+export const MAX_STORY_FRAGMENTS = 15;
+
+// A new moment starts after this much idle time or travel.
+const CLUSTER_GAP_MS = 3 * 60 * 60 * 1000;
+const CLUSTER_RADIUS_KM = 2;
+// dHash bit distance at or below which two frames are treated as the same shot.
+export const NEAR_DUPLICATE_BITS = 10;
+
+export interface SelectionOptions {
+    limit?: number;
+    focus?: FocusTarget[];
+}
+
+export interface MediaSelection {
+    /** Chosen fragments, in chronological order. */
+    selected: MediaItem[];
+    /** Time/place clusters of all non-excluded fragments, in chronological order. */
+    clusters: MediaItem[][];
+    /** Ids skipped because a better near-identical frame exists. */
+    duplicates: string[];
+}
+
+const focusBonus = (m: MediaItem, focus: FocusTarget[]): number => {
+    let bonus = 0;
+    const isVideo = m.mimeType.startsWith('video');
+    const a = m.analysis;
+    // Vision-pass tags are direct evidence; the shape heuristics below only guess.
+    const tagged = m.tags?.filter(t => focus.includes(t)).length ?? 0;
+    bonus += Math.min(0.4, 0.2 * tagged);
+    if (focus.includes('Motion') && isVideo) bonus += 0.3;
+    if (focus.includes('Places') && m.location) bonus += 0.15;
+    if (focus.includes('Vistas') && a && a.width > a.height * 1.2) bonus += 0.15;
+    if ((focus.includes('Details') || focus.includes('Food')) && a && a.height >= a.width) bonus += 0.1;
+    return bonus;
+};
+
+/**
+ * Ranks a fragment 0-1+ by technical quality plus how well it fits the chosen focus.
+ * Fragments without analysis (videos, remote items) get a neutral quality score.
+ */
+export function scoreMedia(m: MediaItem, focus: FocusTarget[] = []): number {
+    const quality = m.analysis ? 0.6 * m.analysis.sharpness + 0.4 * m.analysis.exposure : 0.5;
+    return quality + focusBonus(m, focus);
+}
+
+/**
+ * Groups fragments into moments: consecutive captures close in time and place.
+ */
+export function clusterByMoment(media: MediaItem[]): MediaItem[][] {
+    const sorted = [...media].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    const clusters: MediaItem[][] = [];
+    for (const m of sorted) {
+        const current = clusters[clusters.length - 1];
+        const last = current?.[current.length - 1];
+        const farInTime = !last || Date.parse(m.timestamp) - Date.parse(last.timestamp) > CLUSTER_GAP_MS;
+        const farInSpace = !!(last?.location && m.location && distanceKm(last.location, m.location) > CLUSTER_RADIUS_KM);
+        if (!current || farInTime || farInSpace) {
+            clusters.push([m]);
+        } else {
+            current.push(m);
+        }
+    }
+    return clusters;
+}
+
+/**
+ * Whether two fragments are near-identical frames according to their perceptual hashes.
+ */
+export function isNearDuplicate(a: MediaItem, b: MediaItem): boolean {
+    if (!a.analysis || !b.analysis) return false;
+    return hammingDistance(a.analysis.hash, b.analysis.hash) <= NEAR_DUPLICATE_BITS;
+}
+
+// Picks `count` indexes spread evenly across `length` slots.
+const spreadIndexes = (length: number, count: number): number[] => {
+    if (count >= length) return Array.from({ length }, (_, i) => i);
+    return Array.from({ length: count }, (_, i) => Math.floor((i + 0.5) * length / count));
+};
+
+/**
+ * Chooses a representative subset of the vault for story generation.
+ *
+ * Pinned fragments are always kept; excluded ones and non-hero stack members never are. Remaining slots
+ * are filled round-robin across time/place clusters with each cluster's best
+ * remaining fragment, skipping near-duplicates of anything already chosen.
+ */
+export function selectStoryMedia(media: MediaItem[], options: SelectionOptions = {}): MediaSelection {
+    const limit = options.limit ?? MAX_STORY_FRAGMENTS;
+    const focus = options.focus ?? [];
+    // Stacked duplicates are represented by their hero unless explicitly pinned.
+    const candidates = media.filter(m =>
+        m.curation !== 'excluded' && (!m.stackId || m.stackId === m.id || m.curation === 'pinned')
+    );
+    const clusters = clusterByMoment(candidates);
+
+    const selected: MediaItem[] = candidates.filter(m => m.curation === 'pinned');
+    const duplicates = new Set<string>();
+    const queues = clusters.map(c =>
+        c.filter(m => m.curation !== 'pinned').sort((a, b) => scoreMedia(b, focus) - scoreMedia(a, focus))
+    );
+
+    const take = (queue: MediaItem[]) => {
+        while (queue.length > 0) {
+            const next = queue.shift()!;
+            if (selected.some(s => isNearDuplicate(s, next))) {
+                duplicates.add(next.id);
+                continue;
+            }
+            selected.push(next);
+            return;
+        }
+    };
+
+    // Each pass either selects a fragment or drains a queue of duplicates, so this terminates.
+    while (selected.length < limit) {
+        const open = queues.filter(q => q.length > 0);
+        if (open.length === 0) break;
+        for (const i of spreadIndexes(open.length, limit - selected.length)) {
+            take(open[i]);
+        }
+    }
+
+    return {
+        selected: selected.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+        clusters,
+        duplicates: [...duplicates]
+    };
+}
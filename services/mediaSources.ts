@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaProviderId } from "../types";
+import { CaptureMetadata } from "./mediaMetadata";
+
+export interface MediaAlbum {
+    id: string;
+    title: string;
+    count?: number;
+    coverUrl?: string;
+}
+
+export interface RemoteMediaItem {
+    id: string;
+    filename: string;
+    mimeType: string;
+    /** Metadata the provider knows without downloading the bytes. */
+    metadata?: CaptureMetadata;
+}
+
+export interface MediaPage {
+    items: RemoteMediaItem[];
+    nextPageToken?: string;
+}
+
+export interface FetchedMedia {
+    file: File;
+    metadata?: CaptureMetadata;
+}
+
+/**
+ * A place fragments can be imported from: the device, a cloud library, a fixture set.
+ */
+export interface MediaSourceProvider {
+    id: MediaProviderId;
+    label: string;
+    /** Whether the provider can run in this browser/build (e.g. has credentials configured). */
+    isAvailable(): boolean;
+    listAlbums(): Promise<MediaAlbum[]>;
+    listItems(albumId: string, pageToken?: string): Promise<MediaPage>;
+    fetchItem(item: RemoteMediaItem): Promise<FetchedMedia>;
+}
+
+/**
+ * Walks every page of an album.
+ */
+export async function* iterateAlbum(provider: MediaSourceProvider, albumId: string): AsyncGenerator<RemoteMediaItem> {
+    let pageToken: string | undefined;
+    do {
+        const page = await provider.listItems(albumId, pageToken);
+        yield* page.items;
+        pageToken = page.nextPageToken;
+    } while (pageToken);
+}
+
+// --- Local upload ---
+
+const UPLOAD_ALBUM_ID = 'selection';
+
+// Folder picks and drops carry the path inside the chosen folder.
+const displayPath = (file: File): string =>
+    (file as File & { relativePath?: string }).relativePath || file.webkitRelativePath || file.name;
+
+/**
+ * Wraps files the user picked (file input, drop) as a single-album provider.
+ */
+export const createUploadProvider = (files: File[]): MediaSourceProvider => ({
+    id: 'upload',
+    label: 'Local Uploads',
+    isAvailable: () => true,
+    listAlbums: async () => [{ id: UPLOAD_ALBUM_ID, title: 'Selected Files', count: files.length }],
+    listItems: async () => ({
+        items: files.map((file, idx) => ({ id: `${idx}`, filename: displayPath(file), mimeType: file.type }))
+    }),
+    fetchItem: async (item) => ({ file: files[Number(item.id)] })
+});
+
+// --- Local folder (File System Access API) ---
+
+interface DirectoryHandle {
+    kind: 'directory';
+    name: string;
+    values(): AsyncIterable<DirectoryHandle | FileHandle>;
+}
+
+interface FileHandle {
+    kind: 'file';
+    name: string;
+    getFile(): Promise<File>;
+}
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: () => Promise<DirectoryHandle>;
+  }
+}
+
+/** File extensions the vault accepts. */
+export const MEDIA_EXTENSION = /\.(jpe?g|png|webp|gif|heic|heif|avif|mp4|mov|m4v|webm)$/i;
+
+/**
+ * Infers a media MIME type from a file name, for sources that do not report one.
+ */
+export const mimeFromName = (name: string): string => {
+    const ext = name.split('.').pop()?.toLowerCase() || '';
+    if (['mp4', 'm4v'].includes(ext)) return 'video/mp4';
+    if (ext === 'mov') return 'video/quicktime';
+    if (ext === 'webm') return 'video/webm';
+    if (ext === 'jpg') return 'image/jpeg';
+    return `image/${ext}`;
+};
+
+/**
+ * Treats a local directory as a library: its media files form one album and each
+ * direct subdirectory another. Works offline; requires a Chromium-based browser.
+ */
+export const createLocalFolderProvider = (): MediaSourceProvider => {
+    let root: DirectoryHandle | null = null;
+    const albums = new Map<string, FileHandle[]>();
+
+    const scan = async (dir: DirectoryHandle, albumId: string) => {
+        const files: FileHandle[] = [];
+        for await (const entry of dir.values()) {
+            if (entry.kind === 'file' && MEDIA_EXTENSION.test(entry.name)) files.push(entry);
+            else if (entry.kind === 'directory' && dir === root) await scan(entry, `${albumId}/${entry.name}`);
+        }
+        if (files.length > 0) albums.set(albumId, files.sort((a, b) => a.name.localeCompare(b.name)));
+    };
+
+    return {
+        id: 'local-folder',
+        label: 'Local Folder',
+        isAvailable: () => typeof window.showDirectoryPicker === 'function',
+        listAlbums: async () => {
+            root = await window.showDirectoryPicker!();
+            albums.clear();
+            await scan(root, root.name);
+            return [...albums.entries()].map(([id, files]) => ({ id, title: id, count: files.length }));
+        },
+        listItems: async (albumId) => ({
+            items: (albums.get(albumId) || []).map(f => ({ id: `${albumId}/${f.name}`, filename: f.name, mimeType: mimeFromName(f.name) }))
+        }),
+        fetchItem: async (item) => {
+            const albumId = item.id.slice(0, item.id.lastIndexOf('/'));
+            const handle = albums.get(albumId)?.find(f => f.name === item.filename);
+            if (!handle) throw new Error(`File no longer available: ${item.filename}`);
+            const file = await handle.getFile();
+            return { file: file.type ? file : new File([file], file.name, { type: item.mimeType, lastModified: file.lastModified }) };
+        }
+    };
+};
+
+// --- Fixtures ---
+
+interface FixtureAlbum {
+    id: string;
+    title: string;
+    palette: [string, string];
+    start: string;
+    stops: { name: string; lat: number; lng: number }[];
+}
+
+const FIXTURE_ALBUMS: FixtureAlbum[] = [
+    {
+        id: 'fx-positano', title: 'Summer in Positano', palette: ['#f59e0b', '#0ea5e9'], start: '2025-07-12T08:30:00Z',
+        stops: [
+            { name: 'Naples Harbour', lat: 40.8387, lng: 14.2527 },
+            { name: 'Sorrento', lat: 40.6263, lng: 14.3758 },
+            { name: 'Positano', lat: 40.6281, lng: 14.4850 },
+            { name: 'Amalfi', lat: 40.6340, lng: 14.6027 },
+        ]
+    },
+    {
+        id: 'fx-london', title: 'London Nocturnes', palette: ['#1e1b4b', '#be123c'], start: '2025-11-03T17:10:00Z',
+        stops: [
+            { name: 'Southbank', lat: 51.5055, lng: -0.1160 },
+            { name: 'Covent Garden', lat: 51.5117, lng: -0.1240 },
+            { name: 'Shoreditch', lat: 51.5265, lng: -0.0780 },
+        ]
+    },
+    {
+        id: 'fx-nordic', title: 'Nordic Light', palette: ['#e2e8f0', '#0f766e'], start: '2025-03-21T06:45:00Z',
+        stops: [
+            { name: 'Tromsø', lat: 69.6492, lng: 18.9553 },
+            { name: 'Sommarøy', lat: 69.6345, lng: 18.0119 },
+            { name: 'Senja', lat: 69.3000, lng: 17.3000 },
+        ]
+    },
+];
+
+// Two frames per stop, the second a near-identical "burst" of the first.
+const FRAMES_PER_STOP = 2;
+const FIXTURE_PAGE_SIZE = 4;
+
+const renderFixture = (album: FixtureAlbum, stopIndex: number, frame: number): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 960;
+    canvas.height = 640;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height + stopIndex * 120);
+    gradient.addColorStop(0, album.palette[0]);
+    gradient.addColorStop(1, album.palette[1]);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(0,0,0,0.35)';
+    ctx.beginPath();
+    ctx.arc(200 + stopIndex * 180 + frame * 4, 420, 160, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 56px serif';
+    ctx.fillText(album.stops[stopIndex].name, 48, 96);
+    return new Promise((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error('Fixture render failed')), 'image/jpeg', 0.85)
+    );
+};
+
+const fixtureItems = (album: FixtureAlbum): RemoteMediaItem[] =>
+    album.stops.flatMap((stop, stopIndex) =>
+        Array.from({ length: FRAMES_PER_STOP }, (_, frame) => ({
+            id: `${album.id}:${stopIndex}:${frame}`,
+            filename: `${album.id}-${stopIndex}-${frame}.jpg`,
+            mimeType: 'image/jpeg',
+            metadata: {
+                timestamp: new Date(Date.parse(album.start) + stopIndex * 4 * 3600_000 + frame * 2000).toISOString(),
+                location: { ...stop, description: 'Fixture' }
+            }
+        }))
+    );
+
+/**
+ * Deterministic, fully offline library rendered on canvas. For development and tests.
+ */
+export const fixtureProvider: MediaSourceProvider = {
+    id: 'fixtures',
+    label: 'Fixtures',
+    isAvailable: () => true,
+    listAlbums: async () => FIXTURE_ALBUMS.map(a => ({ id: a.id, title: a.title, count: a.stops.length * FRAMES_PER_STOP })),
+    listItems: async (albumId, pageToken) => {
+        const album = FIXTURE_ALBUMS.find(a => a.id === albumId);
+        if (!album) throw new Error(`Unknown fixture album: ${albumId}`);
+        const all = fixtureItems(album);
+        const start = Number(pageToken || 0);
+        const end = start + FIXTURE_PAGE_SIZE;
+        return { items: all.slice(start, end), nextPageToken: end < all.length ? `${end}` : undefined };
+    },
+    fetchItem: async (item) => {
+        const [albumId, stopIndex, frame] = item.id.split(':');
+        const album = FIXTURE_ALBUMS.find(a => a.id === albumId)!;
+        const blob = await renderFixture(album, Number(stopIndex), Number(frame));
+        return { file: new File([blob], item.filename, { type: item.mimeType }), metadata: item.metadata };
+    }
+};
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaItem } from "../types";
+import { hammingDistance } from "./imageAnalysis";
+import { NEAR_DUPLICATE_BITS, scoreMedia } from "./mediaSelection";
+
+// Burst frames share a scene and a few minutes; re-uploads of the same file hash almost identically.
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+const IDENTICAL_BITS = 2;
+
+export interface MediaStack {
+    hero: MediaItem;
+    /** All members, hero first, then best-scoring first. */
+    members: MediaItem[];
+}
+
+const belongsTogether = (a: MediaItem, b: MediaItem): boolean => {
+    if (!a.analysis || !b.analysis) return false;
+    const bits = hammingDistance(a.analysis.hash, b.analysis.hash);
+    if (bits <= IDENTICAL_BITS) return true;
+    const gap = Math.abs(Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    return bits <= NEAR_DUPLICATE_BITS && gap <= BURST_WINDOW_MS;
+};
+
+const bestOf = (members: MediaItem[]): MediaItem =>
+    members.reduce((best, m) => scoreMedia(m) > scoreMedia(best) ? m : best);
+
+/**
+ * Re-points every member of a stack at a new hero. The stack id is always the hero's id.
+ * Only `setStackHero` marks the new hero as picked by the user.
+ */
+const relabel = (media: MediaItem[], stackId: string, heroId: string, picked: boolean = false): MediaItem[] =>
+    media.map(m => m.stackId === stackId ? { ...m, stackId: heroId, heroPicked: m.id === heroId && picked ? true : undefined } : m);
+
+/**
+ * Adds freshly imported fragments to the vault, folding burst shots and duplicate
+ * uploads into stacks. Stacks that gain a member take their sharpest, best-exposed
+ * frame as hero, unless the user picked one, which is kept.
+ */
+export function addWithStacks(existing: MediaItem[], incoming: MediaItem[]): MediaItem[] {
+    let all = [...existing];
+    const grown = new Set<string>();
+    for (const item of incoming) {
+        const match = all.find(m => belongsTogether(m, item));
+        if (!match) {
+            all.push(item);
+            continue;
+        }
+        const stackId = match.stackId ?? match.id;
+        if (!match.stackId) {
+            all = all.map(m => m.id === match.id ? { ...m, stackId } : m);
+        }
+        all.push({ ...item, stackId });
+        grown.add(stackId);
+    }
+    for (const stackId of grown) {
+        const members = all.filter(m => m.stackId === stackId);
+        if (members.some(m => m.heroPicked)) continue;
+        all = relabel(all, stackId, bestOf(members).id);
+    }
+    return all;
+}
+
+/**
+ * Repairs stacks after removals: orphaned stacks get a new hero and
+ * single-member stacks are dissolved.
+ */
+export function normalizeStacks(media: MediaItem[]): MediaItem[] {
+    let result = media;
+    const stackIds = new Set(media.filter(m => m.stackId).map(m => m.stackId!));
+    for (const stackId of stackIds) {
+        const members = result.filter(m => m.stackId === stackId);
+        if (members.length === 1) {
+            result = result.map(m => m.stackId === stackId ? { ...m, stackId: undefined, heroPicked: undefined } : m);
+        } else if (!members.some(m => m.id === stackId)) {
+            result = relabel(result, stackId, bestOf(members).id);
+        }
+    }
+    return result;
+}
+
+/**
+ * Makes `heroId` the representative frame of its stack.
+ */
+export function setStackHero(media: MediaItem[], heroId: string): MediaItem[] {
+    const target = media.find(m => m.id === heroId);
+    if (!target?.stackId) return media;
+    return relabel(media, target.stackId, heroId, true);
+}
+
+/**
+ * Deletes every non-hero member of a stack.
+ */
+export function removeStackDuplicates(media: MediaItem[], stackId: string): MediaItem[] {
+    return normalizeStacks(media.filter(m => m.stackId !== stackId || m.id === stackId));
+}
+
+/**
+ * Groups the vault for display, preserving vault order by each stack's first appearance.
+ */
+export function groupStacks(media: MediaItem[]): MediaStack[] {
+    const stacks: MediaStack[] = [];
+    const byId = new Map<string, MediaStack>();
+    for (const m of media) {
+        const key = m.stackId ?? m.id;
+        let stack = byId.get(key);
+        if (!stack) {
+            stack = { hero: m, members: [] };
+            byId.set(key, stack);
+            stacks.push(stack);
+        }
+        stack.members.push(m);
+        if (m.id === key) stack.hero = m;
+    }
+    for (const stack of stacks) {
+        const rest = stack.members.filter(m => m !== stack.hero).sort((a, b) => scoreMedia(b) - scoreMedia(a));
+        stack.members = [stack.hero, ...rest];
+    }
+    return stacks;
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaItem } from "../types";
+
+/**
+ * original: the imported bytes, for playback and export.
+ * thumbnail: small JPEG for grids.
+ * rendition: bounded copy sent to Gemini.
+ */
+export type MediaBlobKind = 'original' | 'thumbnail' | 'rendition';
+
+const DB_NAME = 'reelchemy-vault';
+const DB_VERSION = 1;
+const BLOB_STORE = 'blobs';
+const VAULT_STORE = 'vault';
+const VAULT_KEY = 'items';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const objectUrls = new Map<string, string>();
+
+const blobKey = (id: string, kind: MediaBlobKind) => `${id}/${kind}`;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(BLOB_STORE);
+                request.result.createObjectStore(VAULT_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error("IndexedDB transaction aborted"));
+    });
+};
+
+/**
+ * Stores the blobs belonging to a fragment. Missing kinds are simply not written.
+ */
+export const putMediaBlobs = async (id: string, blobs: Partial<Record<MediaBlobKind, Blob>>): Promise<void> => {
+    await run(BLOB_STORE, 'readwrite', store => {
+        (Object.entries(blobs) as [MediaBlobKind, Blob | undefined][]).forEach(([kind, blob]) => {
+            if (blob) store.put(blob, blobKey(id, kind));
+        });
+    });
+};
+
+export const getMediaBlob = (id: string, kind: MediaBlobKind): Promise<Blob | undefined> =>
+    run<Blob | undefined>(BLOB_STORE, 'readonly', store => store.get(blobKey(id, kind)));
+
+/**
+ * Deletes a fragment's blobs and revokes any object URLs handed out for them.
+ */
+export const deleteMediaBlobs = async (id: string): Promise<void> => {
+    (['original', 'thumbnail', 'rendition'] as MediaBlobKind[]).forEach(kind => {
+        const key = blobKey(id, kind);
+        const url = objectUrls.get(key);
+        if (url) URL.revokeObjectURL(url);
+        objectUrls.delete(key);
+    });
+    await run(BLOB_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound(`${id}/`, `${id}/\uffff`)));
+};
+
+/**
+ * Returns an already-created object URL without touching IndexedDB.
+ */
+export const peekMediaUrl = (id: string, kinds: MediaBlobKind[]): string | undefined => {
+    for (const kind of kinds) {
+        const url = objectUrls.get(blobKey(id, kind));
+        if (url) return url;
+    }
+    return undefined;
+};
+
+/**
+ * Lazily creates (and caches) an object URL for the first available blob kind.
+ */
+export const getMediaUrl = async (id: string, kinds: MediaBlobKind[]): Promise<string | undefined> => {
+    const cached = peekMediaUrl(id, kinds);
+    if (cached) return cached;
+    for (const kind of kinds) {
+        const blob = await getMediaBlob(id, kind);
+        if (!blob) continue;
+        const key = blobKey(id, kind);
+        // Another caller may have resolved the same blob while we were reading.
+        if (!objectUrls.has(key)) objectUrls.set(key, URL.createObjectURL(blob));
+        return objectUrls.get(key);
+    }
+    return undefined;
+};
+
+/**
+ * Encodes a stored blob as a data URL. Used by the service layer at request time only.
+ */
+export const readMediaDataUrl = async (id: string, kind: MediaBlobKind): Promise<string | undefined> => {
+    const blob = await getMediaBlob(id, kind);
+    if (!blob) return undefined;
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Persists the vault's fragment list (metadata only, in display order).
+ */
+export const saveVault = (items: MediaItem[]): Promise<void> =>
+    run(VAULT_STORE, 'readwrite', store => { store.put(items, VAULT_KEY); });
+
+export const loadVault = async (): Promise<MediaItem[]> =>
+    (await run<MediaItem[] | undefined>(VAULT_STORE, 'readonly', store => store.get(VAULT_KEY))) || [];
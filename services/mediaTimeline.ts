@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MediaItem } from "../types";
+import { clusterByMoment } from "./mediaSelection";
+
+// Idle time between moments worth calling out as a gap in the timeline.
+const NOTABLE_GAP_MS = 3 * 60 * 60 * 1000;
+
+/** A moment: consecutive captures close in time and place, within one day. */
+export interface TimelineGroup {
+    /** Id of the group's first fragment, stable while the group keeps its opening frame. */
+    id: string;
+    place?: string;
+    start: string;
+    end: string;
+    items: MediaItem[];
+    /** Idle time since the previous group, when long enough to be worth showing. */
+    gapBeforeMs?: number;
+}
+
+export interface TimelineDay {
+    /** Local calendar date, YYYY-MM-DD. */
+    day: string;
+    groups: TimelineGroup[];
+}
+
+const time = (m: MediaItem) => Date.parse(m.timestamp);
+
+const localDay = (timestamp: string): string => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Sorts fragments by capture time (ties keep vault order). Timestamps may carry
+ * different UTC offsets, so they are compared as instants rather than strings.
+ */
+export function sortChronologically(media: MediaItem[]): MediaItem[] {
+    return media
+        .map((m, i) => ({ m, i }))
+        .sort((a, b) => (time(a.m) - time(b.m)) || a.i - b.i)
+        .map(({ m }) => m);
+}
+
+/**
+ * Lays the vault out as days of moments, noting long gaps between consecutive moments.
+ */
+export function buildTimeline(media: MediaItem[]): TimelineDay[] {
+    const days: TimelineDay[] = [];
+    let previousEnd: number | undefined;
+    for (const moment of clusterByMoment(sortChronologically(media))) {
+        // A moment that runs past midnight is split so each day stands on its own.
+        const byDay = new Map<string, MediaItem[]>();
+        moment.forEach(m => byDay.set(localDay(m.timestamp), [...(byDay.get(localDay(m.timestamp)) || []), m]));
+        byDay.forEach((items, day) => {
+            const gap = previousEnd === undefined ? 0 : time(items[0]) - previousEnd;
+            const group: TimelineGroup = {
+                id: items[0].id,
+                place: items.find(m => m.location)?.location?.name,
+                start: items[0].timestamp,
+                end: items[items.length - 1].timestamp,
+                items,
+                gapBeforeMs: gap >= NOTABLE_GAP_MS ? gap : undefined
+            };
+            previousEnd = time(items[items.length - 1]);
+            const last = days[days.length - 1];
+            if (last?.day === day) last.groups.push(group);
+            else days.push({ day, groups: [group] });
+        });
+    }
+    return days;
+}
+
+/**
+ * Fixes a wrong camera clock by re-timing a fragment (and the rest of its stack) so it
+ * lands at the end of `target`. The first correction keeps the camera's original time.
+ * A fragment geotagged far from the group still starts its own moment at that time.
+ */
+export function moveToGroup(media: MediaItem[], itemId: string, target: TimelineGroup): MediaItem[] {
+    const item = media.find(m => m.id === itemId);
+    if (!item || target.items.some(m => m.id === itemId)) return media;
+
+    const moved = new Set(item.stackId ? media.filter(m => m.stackId === item.stackId).map(m => m.id) : [item.id]);
+    const targetEnd = Date.parse(target.end);
+    const later = media
+        .filter(m => !moved.has(m.id))
+        .map(time)
+        .filter(t => t > targetEnd)
+        .sort((a, b) => a - b)[0];
+    // One second after the group's last frame, without overtaking whatever comes next.
+    const landing = later === undefined ? targetEnd + 1000 : Math.min(targetEnd + 1000, (targetEnd + later) / 2);
+    const delta = landing - time(item);
+
+    return media.map(m => moved.has(m.id)
+        ? { ...m, timestamp: new Date(time(m) + delta).toISOString(), originalTimestamp: m.originalTimestamp ?? m.timestamp }
+        : m);
+}
+
+/**
+ * Undoes clock corrections on a fragment's stack.
+ */
+export function restoreCaptureTime(media: MediaItem[], itemId: string): MediaItem[] {
+    const item = media.find(m => m.id === itemId);
+    if (!item) return media;
+    const restore = (m: MediaItem) => m.id === itemId || (!!item.stackId && m.stackId === item.stackId);
+    return media.map(m => restore(m) && m.originalTimestamp
+        ? { ...m, timestamp: m.originalTimestamp, originalTimestamp: undefined }
+        : m);
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Parsing, validation and retry for JSON written by the model. Responses are checked
+ * against small typed schemas; fenced or truncated output is repaired where possible, and
+ * a failing response is retried once with the problems spelled out to the model.
+ */
+
+export class ModelOutputError extends Error {
+    constructor(label: string, public readonly issues: string[]) {
+        super(`${label} response was unusable: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+        this.name = 'ModelOutputError';
+    }
+}
+
+/** Checks an untrusted value, recording problems under `path`; undefined when it is unusable. */
+export type Validator<T> = (value: unknown, path: string, issues: string[]) => T | undefined;
+
+export const string = (opts: { nonEmpty?: boolean } = {}): Validator<string> => (value, path, issues) => {
+    if (typeof value !== 'string' || (opts.nonEmpty && !value.trim())) {
+        issues.push(`${path}: expected ${opts.nonEmpty ? 'a non-empty string' : 'a string'}`);
+        return undefined;
+    }
+    return value;
+};
+
+export const number = (opts: { integer?: boolean; min?: number; max?: number } = {}): Validator<number> => (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || (opts.integer && !Number.isInteger(value))) {
+        issues.push(`${path}: expected ${opts.integer ? 'an integer' : 'a number'}`);
+        return undefined;
+    }
+    if ((opts.min !== undefined && value < opts.min) || (opts.max !== undefined && value > opts.max)) {
+        issues.push(`${path}: ${value} is outside ${opts.min ?? '-∞'}..${opts.max ?? '∞'}`);
+        return undefined;
+    }
+    return value;
+};
+
+/** A missing (or null) value is fine; a present but wrong one is dropped without failing the parent. */
+export const optional = <T>(inner: Validator<T>): Validator<T | undefined> => (value, path) =>
+    value === undefined || value === null ? undefined : inner(value, path, []);
+
+type Shape = Record<string, Validator<unknown>>;
+type ShapeOf<S extends Shape> = { [K in keyof S]: S[K] extends Validator<infer T> ? T : never };
+
+export const object = <S extends Shape>(shape: S): Validator<ShapeOf<S>> => (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path}: expected an object`);
+        return undefined;
+    }
+    const out: Record<string, unknown> = {};
+    let ok = true;
+    for (const [key, check] of Object.entries(shape)) {
+        const before = issues.length;
+        out[key] = check((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+        if (issues.length > before) ok = false;
+    }
+    return ok ? out as ShapeOf<S> : undefined;
+};
+
+export const array = <T>(item: Validator<T>, opts: { min?: number } = {}): Validator<T[]> => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        issues.push(`${path}: expected an array`);
+        return undefined;
+    }
+    const before = issues.length;
+    const out = value.map((v, i) => item(v, `${path}[${i}]`, issues));
+    if (opts.min !== undefined && value.length < opts.min) {
+        issues.push(`${path}: expected at least ${opts.min} items, got ${value.length}`);
+    }
+    return issues.length > before ? undefined : out as T[];
+};
+
+/** Runs a validator from the document root. */
+export const validate = <T>(value: unknown, schema: Validator<T>): { value?: T; issues: string[] } => {
+    const issues: string[] = [];
+    const result = schema(value, '$', issues);
+    return { value: issues.length === 0 ? result : undefined, issues };
+};
+
+/**
+ * Recovers JSON from a model reply: strips markdown fences and surrounding prose, and
+ * cuts a truncated document back to its last complete array item before closing it.
+ * Partial strings are never closed, so a half-written beat is dropped rather than kept.
+ */
+export const repairJson = (text: string): unknown => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+    const body = fenced ? fenced[1] : text;
+    const start = body.search(/[{[]/);
+    if (start < 0) throw new SyntaxError('no JSON value found');
+    const json = body.slice(start).trim();
+
+    try {
+        return JSON.parse(json);
+    } catch {
+        // Fall through to truncation repair.
+    }
+
+    // Remember every point where the document could be cut and closed.
+    const stack: string[] = [];
+    const cuts: { at: number; closers: string }[] = [];
+    const closers = () => stack.map(c => c === '{' ? '}' : ']').reverse().join('');
+    let inString = false;
+    let escaped = false;
+    for (let i = 0; i < json.length; i++) {
+        const c = json[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (c === '\\') escaped = true;
+            else if (c === '"') inString = false;
+            continue;
+        }
+        if (c === '"') inString = true;
+        else if (c === '{' || c === '[') stack.push(c);
+        else if (c === '}' || c === ']') {
+            stack.pop();
+            cuts.push({ at: i + 1, closers: closers() });
+        } else if (c === ',' && stack[stack.length - 1] === '[') {
+            // Only between array items, so an object is never kept with some members missing.
+            cuts.push({ at: i, closers: closers() });
+        }
+    }
+    for (let k = cuts.length - 1; k >= 0; k--) {
+        try {
+            return JSON.parse(json.slice(0, cuts[k].at) + cuts[k].closers);
+        } catch {
+            // Try an earlier cut.
+        }
+    }
+    throw new SyntaxError('JSON is malformed beyond repair');
+};
+
+const MAX_ATTEMPTS = 2;
+
+const correctionPrompt = (issues: string[]) =>
+    `Your previous reply could not be used:\n${issues.slice(0, 10).map(i => `- ${i}`).join('\n')}\n` +
+    `Reply again with the complete JSON document only, fixing these problems and matching the schema exactly.`;
+
+/**
+ * Requests JSON until it parses and validates. `request` receives a corrective note to add
+ * to the prompt on retries. Throws a ModelOutputError listing the last attempt's problems.
+ */
+export const requestValidJson = async <T>(
+    label: string,
+    schema: Validator<T>,
+    request: (correction?: string) => Promise<string>
+): Promise<T> => {
+    let issues: string[] = [];
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const text = await request(attempt === 0 ? undefined : correctionPrompt(issues));
+        let parsed: unknown;
+        try {
+            parsed = repairJson(text);
+        } catch (e) {
+            issues = [`$: ${e instanceof Error ? e.message : 'not JSON'}`];
+            console.warn(`[${label}] attempt ${attempt + 1}:`, issues);
+            continue;
+        }
+        const result = validate(parsed, schema);
+        if (result.value !== undefined) return result.value;
+        issues = result.issues;
+        console.warn(`[${label}] attempt ${attempt + 1}:`, issues);
+    }
+    throw new ModelOutputError(label, issues);
+};
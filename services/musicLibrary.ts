@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MusicTrack } from "../types";
+import { deleteMediaBlobs, getMediaBlob, putMediaBlobs } from "./mediaStore";
+
+/** A built-in bed, synthesized as a seamless loop rather than shipped as a file. */
+interface LibraryBed extends MusicTrack {
+    /** Chord tones in Hz. */
+    notes: number[];
+    wave: OscillatorType;
+    /** Low-pass cutoff in Hz; lower is darker. */
+    brightness: number;
+    /** How far each tone swells in and out, 0..1. */
+    swell: number;
+    /** Rhythmic gating in beats per minute, for a pulse. */
+    pulse?: number;
+}
+
+export const MUSIC_LIBRARY: LibraryBed[] = [
+    { id: 'rain-drone', name: 'Rain Drone', mood: 'Brooding', notes: [55, 110, 130.81, 164.81], wave: 'sine', brightness: 900, swell: 0.6 },
+    { id: 'postcard-pulse', name: 'Postcard Pulse', mood: 'Sunny', notes: [261.63, 329.63, 392, 523.25], wave: 'triangle', brightness: 3200, swell: 0.3, pulse: 120 },
+    { id: 'haze', name: 'Haze', mood: 'Dreamy', notes: [146.83, 220, 293.66, 329.63], wave: 'sine', brightness: 1400, swell: 0.8 },
+    { id: 'horizon-swell', name: 'Horizon Swell', mood: 'Epic', notes: [73.42, 146.83, 174.61, 220, 293.66], wave: 'sawtooth', brightness: 1100, swell: 0.5 }
+];
+
+const BED_SECONDS = 16;
+const BED_SAMPLE_RATE = 44100;
+const UPLOADS_STORAGE_KEY = 'reelchemy.music';
+
+// Rounds a frequency to a whole number of cycles per loop, so the loop point does not click.
+const loopable = (hz: number) => Math.max(1, Math.round(hz * BED_SECONDS)) / BED_SECONDS;
+
+const renderBed = (bed: LibraryBed): Promise<AudioBuffer> => {
+    const ctx = new OfflineAudioContext(2, BED_SECONDS * BED_SAMPLE_RATE, BED_SAMPLE_RATE);
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = bed.brightness;
+    const out = ctx.createGain();
+    out.gain.value = 0.6 / bed.notes.length;
+    filter.connect(out);
+
+    if (bed.pulse) {
+        const gate = ctx.createGain();
+        gate.gain.value = 0.7;
+        const beat = ctx.createOscillator();
+        beat.type = 'square';
+        beat.frequency.value = loopable(bed.pulse / 60);
+        const depth = ctx.createGain();
+        depth.gain.value = 0.3;
+        beat.connect(depth).connect(gate.gain);
+        beat.start();
+        out.connect(gate).connect(ctx.destination);
+    } else {
+        out.connect(ctx.destination);
+    }
+
+    bed.notes.forEach((hz, i) => {
+        const tone = ctx.createOscillator();
+        tone.type = bed.wave;
+        tone.frequency.value = loopable(hz);
+        const amp = ctx.createGain();
+        amp.gain.value = 1 - bed.swell / 2;
+        // Each tone swells at its own whole-loop rate, so the chord keeps shifting yet loops cleanly.
+        const lfo = ctx.createOscillator();
+        lfo.frequency.value = (i + 1) / BED_SECONDS;
+        const depth = ctx.createGain();
+        depth.gain.value = bed.swell / 2;
+        lfo.connect(depth).connect(amp.gain);
+        const pan = ctx.createStereoPanner();
+        pan.pan.value = bed.notes.length > 1 ? (i / (bed.notes.length - 1)) * 1.2 - 0.6 : 0;
+        tone.connect(amp).connect(pan).connect(filter);
+        tone.start();
+        lfo.start();
+    });
+    return ctx.startRendering();
+};
+
+const decodeUpload = async (id: string): Promise<AudioBuffer | undefined> => {
+    const blob = await getMediaBlob(id, 'original');
+    if (!blob) return undefined;
+    return new OfflineAudioContext(2, 1, BED_SAMPLE_RATE).decodeAudioData(await blob.arrayBuffer());
+};
+
+// Rendered or decoded once per session; AudioBuffers can be played in any context.
+const buffers = new Map<string, Promise<AudioBuffer | undefined>>();
+
+/**
+ * The audio of a library or uploaded track, or undefined when it no longer exists
+ * (e.g. an upload referenced by a pack imported from another device).
+ */
+export const loadScore = (trackId: string): Promise<AudioBuffer | undefined> => {
+    if (!buffers.has(trackId)) {
+        const bed = MUSIC_LIBRARY.find(b => b.id === trackId);
+        const loading = (bed ? renderBed(bed) : decodeUpload(trackId)).catch(e => {
+            buffers.delete(trackId);
+            throw e;
+        });
+        buffers.set(trackId, loading);
+    }
+    return buffers.get(trackId)!;
+};
+
+export const loadUploadedScores = (): MusicTrack[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(UPLOADS_STORAGE_KEY) || '[]');
+        return Array.isArray(stored)
+            ? stored.filter(t => typeof t?.id === 'string' && typeof t?.name === 'string').map(t => ({ id: t.id, name: t.name, uploaded: true }))
+            : [];
+    } catch (e) {
+        console.warn("Stored music unreadable", e);
+        return [];
+    }
+};
+
+export const saveUploadedScores = (tracks: MusicTrack[]): void => {
+    localStorage.setItem(UPLOADS_STORAGE_KEY, JSON.stringify(tracks.map(({ id, name }) => ({ id, name }))));
+};
+
+/**
+ * Stores an uploaded audio file in the vault. Rejects when the browser cannot decode it.
+ */
+export const addUploadedScore = async (file: File): Promise<MusicTrack> => {
+    const id = `score-${Date.now()}`;
+    await putMediaBlobs(id, { original: file });
+    try {
+        if (!await loadScore(id)) throw new Error("Stored music could not be read back");
+    } catch (e) {
+        await deleteMediaBlobs(id);
+        throw new Error(`${file.name} is not a playable audio file.`);
+    }
+    return { id, name: file.name.replace(/\.[^.]+$/, ''), uploaded: true };
+};
+
+export const deleteUploadedScore = async (id: string): Promise<void> => {
+    buffers.delete(id);
+    await deleteMediaBlobs(id);
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ScoreMode } from "../types";
+
+/** Music level while narration plays, relative to the music volume. */
+const DUCK_LEVEL = 0.25;
+const DUCK_ATTACK = 0.25;
+const DUCK_RELEASE = 1.2;
+const CROSSFADE = 2;
+/** Seconds of score each beat moves on by in crossfade mode. */
+const SECTION = 8;
+
+export interface ScoreMixer {
+    /** Narration sources connect here. */
+    voice: AudioNode;
+    /** Starts a new music bed, or stops the music when there is none. */
+    setScore: (buffer: AudioBuffer | undefined, mode: ScoreMode) => void;
+    /** A new beat is on screen: in crossfade mode the score fades to that beat's section. */
+    enterBeat: (position: number) => void;
+    /** Narration started: the music dips under it. */
+    duck: () => void;
+    /** Narration ended: the music comes back up. */
+    release: () => void;
+    setVoiceVolume: (volume: number) => void;
+    setMusicVolume: (volume: number) => void;
+    dispose: () => void;
+}
+
+/**
+ * Mixes narration over a music bed. Both run through a compressor on the way out, so
+ * voice and music peaks together do not clip:
+ *
+ *   narration -> voice volume ------------------------------> compressor -> destination
+ *   score     -> fade -> duck -> music volume --------------^
+ */
+export function createScoreMixer(ctx: AudioContext): ScoreMixer {
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = -18;
+    compressor.ratio.value = 4;
+    compressor.attack.value = 0.01;
+    compressor.release.value = 0.25;
+    compressor.connect(ctx.destination);
+
+    const voiceGain = ctx.createGain();
+    voiceGain.connect(compressor);
+    const musicGain = ctx.createGain();
+    musicGain.connect(compressor);
+    const duckGain = ctx.createGain();
+    duckGain.connect(musicGain);
+
+    let score: { buffer: AudioBuffer; mode: ScoreMode } | undefined;
+    let playing: { source: AudioBufferSourceNode; fade: GainNode } | undefined;
+    let beat = 0;
+
+    const ramp = (param: AudioParam, value: number, seconds: number) => {
+        param.cancelScheduledValues(ctx.currentTime);
+        param.setValueAtTime(param.value, ctx.currentTime);
+        param.linearRampToValueAtTime(value, ctx.currentTime + seconds);
+    };
+
+    const fadeOut = () => {
+        if (!playing) return;
+        const { source, fade } = playing;
+        ramp(fade.gain, 0, CROSSFADE);
+        source.stop(ctx.currentTime + CROSSFADE);
+        playing = undefined;
+    };
+
+    const play = (offset: number) => {
+        if (!score) return;
+        fadeOut();
+        const source = ctx.createBufferSource();
+        source.buffer = score.buffer;
+        source.loop = true;
+        const fade = ctx.createGain();
+        fade.gain.value = 0;
+        source.connect(fade).connect(duckGain);
+        source.start(ctx.currentTime, offset % score.buffer.duration);
+        ramp(fade.gain, 1, CROSSFADE);
+        playing = { source, fade };
+    };
+
+    return {
+        voice: voiceGain,
+        setScore: (buffer, mode) => {
+            score = buffer && { buffer, mode };
+            if (score) play(mode === 'crossfade' ? beat * SECTION : 0);
+            else fadeOut();
+        },
+        enterBeat: (position) => {
+            if (position === beat) return;
+            beat = position;
+            if (score?.mode === 'crossfade') play(beat * SECTION);
+        },
+        duck: () => ramp(duckGain.gain, DUCK_LEVEL, DUCK_ATTACK),
+        release: () => ramp(duckGain.gain, 1, DUCK_RELEASE),
+        setVoiceVolume: (volume) => ramp(voiceGain.gain, volume, 0.05),
+        setMusicVolume: (volume) => ramp(musicGain.gain, volume, 0.05),
+        dispose: () => {
+            try { playing?.source.stop(); } catch (e) {}
+            playing = undefined;
+            compressor.disconnect();
+        }
+    };
+}
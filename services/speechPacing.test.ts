@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { emphasisParts, hasEmphasis, splitSentences, stripEmphasis } from './speechPacing';
+
+describe('splitSentences', () => {
+  it('splits on the language\'s own sentence rules', () => {
+    expect(splitSentences('We met at 9.30 in the square. Then it rained!', 'en'))
+      .toEqual(['We met at 9.30 in the square.', 'Then it rained!']);
+    expect(splitSentences('東京に着いた。雨だった。', 'ja')).toEqual(['東京に着いた。', '雨だった。']);
+  });
+
+  it('keeps an emphasis marker that spans a sentence break in one piece', () => {
+    expect(splitSentences('It was *late. Very late* when we left. Then home.', 'en'))
+      .toEqual(['It was *late. Very late* when we left.', 'Then home.']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitSentences('  ', 'en')).toEqual([]);
+  });
+});
+
+describe('emphasis', () => {
+  it('finds, strips and splits out marked words', () => {
+    const text = 'It was *never* about the *view*.';
+    expect(hasEmphasis(text)).toBe(true);
+    expect(hasEmphasis('No markers here.')).toBe(false);
+    expect(stripEmphasis(text)).toBe('It was never about the view.');
+    expect(emphasisParts(text)).toEqual([
+      { text: 'It was ', emphasis: false },
+      { text: 'never', emphasis: true },
+      { text: ' about the ', emphasis: false },
+      { text: 'view', emphasis: true },
+      { text: '.', emphasis: false }
+    ]);
+  });
+});
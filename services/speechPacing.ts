@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaceLevel } from "../types";
+
+export interface SpeechPacing {
+    /** Delivery direction given to the TTS model as a style instruction; it has no numeric rate setting. */
+    rate: string;
+    /** Silence between sentences, in seconds; the model's own pauses are retimed to it. */
+    sentencePause: number;
+    /** Silence after each beat, in seconds, before the next one starts. */
+    beatPause: number;
+}
+
+/** How narration is timed at each pace. */
+export const SPEECH_PACING: Record<PaceLevel, SpeechPacing> = {
+    'Slow Burn': { rate: 'Read slowly and deliberately, letting each line land.', sentencePause: 0.7, beatPause: 1.5 },
+    'Balanced': { rate: 'Read at a natural, unhurried storytelling pace.', sentencePause: 0.35, beatPause: 0.8 },
+    'Hypercut': { rate: 'Read briskly, with energy and momentum.', sentencePause: 0.12, beatPause: 0.25 }
+};
+
+/**
+ * Emphasis markers in beat text: a word or short phrase wrapped in asterisks is stressed
+ * when voiced and set in italics on screen, e.g. "It was *never* about the view."
+ */
+const EMPHASIS = /\*([^*\n]+)\*/g;
+
+export const EMPHASIS_DIRECTION = 'Stress the words wrapped in asterisks; never read the asterisks aloud.';
+
+export const hasEmphasis = (text: string): boolean => new RegExp(EMPHASIS.source).test(text);
+
+export const stripEmphasis = (text: string): string => text.replace(EMPHASIS, '$1');
+
+/** Text split into plain and emphasized runs, for rendering. */
+export function emphasisParts(text: string): { text: string; emphasis: boolean }[] {
+    const parts: { text: string; emphasis: boolean }[] = [];
+    let last = 0;
+    for (const match of text.matchAll(EMPHASIS)) {
+        if (match.index! > last) parts.push({ text: text.slice(last, match.index), emphasis: false });
+        parts.push({ text: match[1], emphasis: true });
+        last = match.index! + match[0].length;
+    }
+    if (last < text.length) parts.push({ text: text.slice(last), emphasis: false });
+    return parts;
+}
+
+/**
+ * Splits narration into sentences using the language's own rules, for timing the pauses
+ * between them and for subtitles. Emphasis markers stay with their sentence.
+ */
+export function splitSentences(text: string, language: string): string[] {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' });
+    const sentences: string[] = [];
+    let pending = '';
+    for (const { segment } of segmenter.segment(text)) {
+        pending += segment;
+        // A marker split across sentences would be read literally; keep such pieces together.
+        if ((pending.match(/\*/g)?.length ?? 0) % 2 === 1) continue;
+        if (pending.trim()) sentences.push(pending.trim());
+        pending = '';
+    }
+    if (pending.trim()) sentences.push(pending.trim());
+    return sentences;
+}
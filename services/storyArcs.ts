@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ArcSlot, EndingStyle, StoryArc } from "../types";
+
+/**
+ * Arc template library. Each arc is a sequence of acts; each act lists the beats
+ * (slots) it needs, so the arc's beat count and the role of every beat are fixed.
+ */
+export const STORY_ARCS: StoryArc[] = [
+    {
+        id: 'journey',
+        name: 'The Journey',
+        structure: 'Linear Chronological',
+        bestFor: 'Road trips and long cruises',
+        acts: [
+            { name: 'Departure', slots: [
+                { id: 'threshold', role: 'Threshold', guidance: 'The moment of leaving: first light, first road, first view.' },
+                { id: 'arrival', role: 'Arrival', guidance: 'First impressions of the first stop, told through one concrete detail.' }
+            ] },
+            { name: 'The Road', slots: [
+                { id: 'rhythm', role: 'Rhythm', guidance: 'Settling into the trip: routines, small rituals, the pace of the days.' },
+                { id: 'detour', role: 'Detour', guidance: 'Something unplanned: a wrong turn, a closed road, a lucky find.' },
+                { id: 'landmark', role: 'Landmark', guidance: 'The most famous or grandest place visited, grounded in real facts.' },
+                { id: 'stillness', role: 'Stillness', guidance: 'A quiet pause between stops.' }
+            ] },
+            { name: 'Homecoming', slots: [
+                { id: 'last-stop', role: 'Last Stop', guidance: 'The final destination, seen with everything the trip has taught.' },
+                { id: 'return', role: 'Return', guidance: 'Looking back on the whole route.' }
+            ] }
+        ]
+    },
+    {
+        id: 'love-letter',
+        name: 'The Love Letter',
+        structure: 'Emotional Crescendo',
+        bestFor: 'Couples and quiet getaways',
+        acts: [
+            { name: 'Salutation', slots: [
+                { id: 'address', role: 'Address', guidance: 'Speak directly to the place (or the companion) as "you".' },
+                { id: 'first-glance', role: 'First Glance', guidance: 'The moment of falling for it.' }
+            ] },
+            { name: 'Confessions', slots: [
+                { id: 'small-thing', role: 'Small Thing', guidance: 'A tiny, specific detail only a lover would notice.' },
+                { id: 'shared-moment', role: 'Shared Moment', guidance: 'Something experienced together.' },
+                { id: 'ache', role: 'Ache', guidance: 'A flicker of longing or the knowledge that it will end.' }
+            ] },
+            { name: 'Crescendo', slots: [
+                { id: 'declaration', role: 'Declaration', guidance: 'The most emotionally open beat of the film.' },
+                { id: 'signature', role: 'Signature', guidance: 'Sign off the letter.' }
+            ] }
+        ]
+    },
+    {
+        id: 'heros-return',
+        name: "The Hero's Return",
+        structure: 'Three-Act Quest',
+        bestFor: 'Hikes, treks and bucket-list challenges',
+        acts: [
+            { name: 'The Call', slots: [
+                { id: 'ordinary-world', role: 'Ordinary World', guidance: 'Who the traveller was before setting out.' },
+                { id: 'call', role: 'The Call', guidance: 'Why this trip, why now.' }
+            ] },
+            { name: 'The Trial', slots: [
+                { id: 'crossing', role: 'Crossing', guidance: 'Entering unfamiliar territory.' },
+                { id: 'ordeal', role: 'Ordeal', guidance: 'The hardest stretch: weather, fatigue, doubt.' },
+                { id: 'ally', role: 'Ally', guidance: 'A person, animal or place that helped.' },
+                { id: 'summit', role: 'Summit', guidance: 'The peak of the trip, literal or emotional.' }
+            ] },
+            { name: 'The Return', slots: [
+                { id: 'reward', role: 'Reward', guidance: 'What was gained.' },
+                { id: 'changed', role: 'Changed', guidance: 'Who comes home.' }
+            ] }
+        ]
+    },
+    {
+        id: 'postcards',
+        name: 'Postcards',
+        structure: 'Vignette Montage',
+        bestFor: 'City breaks and festival weekends',
+        acts: [
+            { name: 'Front of the Card', slots: [
+                { id: 'greetings', role: 'Greetings From', guidance: 'One punchy establishing line naming the place.' }
+            ] },
+            { name: 'Snapshots', slots: [
+                { id: 'snapshot-taste', role: 'Taste', guidance: 'A self-contained vignette about food or drink.' },
+                { id: 'snapshot-street', role: 'Street', guidance: 'A self-contained vignette about the street life.' },
+                { id: 'snapshot-view', role: 'View', guidance: 'A self-contained vignette about a view.' },
+                { id: 'snapshot-night', role: 'Night', guidance: 'A self-contained vignette after dark.' },
+                { id: 'snapshot-odd', role: 'Oddity', guidance: 'The strangest or funniest thing seen.' }
+            ] },
+            { name: 'Back of the Card', slots: [
+                { id: 'wish-you-were-here', role: 'Wish You Were Here', guidance: 'The sign-off a postcard would carry.' }
+            ] }
+        ]
+    },
+    {
+        id: 'fish-out-of-water',
+        name: 'Fish Out of Water',
+        structure: 'Culture Shock to Belonging',
+        bestFor: 'First trips abroad and long stays',
+        acts: [
+            { name: 'Shock', slots: [
+                { id: 'landing', role: 'Landing', guidance: 'Disorientation on arrival.' },
+                { id: 'misstep', role: 'Misstep', guidance: 'A comic or awkward mistake.' }
+            ] },
+            { name: 'Adaptation', slots: [
+                { id: 'lesson', role: 'Lesson', guidance: 'Learning a local way of doing something.' },
+                { id: 'local', role: 'Local', guidance: 'A local encounter that changed the trip.' },
+                { id: 'routine', role: 'Routine', guidance: 'The first moment it felt normal.' }
+            ] },
+            { name: 'Belonging', slots: [
+                { id: 'insider', role: 'Insider', guidance: 'Seeing the place as a regular would.' },
+                { id: 'goodbye', role: 'Goodbye', guidance: 'Leaving somewhere that now feels like home.' }
+            ] }
+        ]
+    },
+    {
+        id: 'mystery',
+        name: 'The Mystery',
+        structure: 'Question and Reveal',
+        bestFor: 'Ruins, museums and off-the-map places',
+        acts: [
+            { name: 'The Question', slots: [
+                { id: 'hook', role: 'Hook', guidance: 'Open on an intriguing question the place poses.' },
+                { id: 'first-clue', role: 'First Clue', guidance: 'A detail that hints at the answer.' }
+            ] },
+            { name: 'The Investigation', slots: [
+                { id: 'red-herring', role: 'Red Herring', guidance: 'A plausible but wrong explanation.' },
+                { id: 'history', role: 'History', guidance: 'Real history of the place, grounded in search results.' },
+                { id: 'turn', role: 'Turn', guidance: 'The detail that reframes everything.' }
+            ] },
+            { name: 'The Reveal', slots: [
+                { id: 'reveal', role: 'Reveal', guidance: 'Answer the opening question.' },
+                { id: 'afterimage', role: 'Afterimage', guidance: 'What lingers once the mystery is solved.' }
+            ] }
+        ]
+    }
+];
+
+/** How each ending style shapes the closing beats. */
+export const ENDING_DIRECTIONS: Record<EndingStyle, string> = {
+    'Mic Drop': 'End on a short, declarative, quotable line. No reflection after it; the last word lands and the film cuts.',
+    'Soft Landing': 'Wind down gently: slower sentences, a reflective tone and a final image that settles into calm.',
+    'Cliffhanger': 'Leave a question open: hint at a return trip, an unfinished story or something still unseen. Do not resolve it.'
+};
+
+// Closing beats the ending style applies to.
+const ENDING_SLOT_COUNT = 2;
+
+/** All slots of an arc, in story order, tagged with their act. */
+export const arcSlots = (arc: StoryArc): (ArcSlot & { act: string })[] =>
+    arc.acts.flatMap(act => act.slots.map(slot => ({ ...slot, act: act.name })));
+
+/** Slot ids whose beats must carry the ending style. */
+export const endingSlotIds = (arc: StoryArc): string[] =>
+    arcSlots(arc).slice(-ENDING_SLOT_COUNT).map(s => s.id);
+
+/** Looks up the slot (and its act) a beat fills. */
+export const findArcSlot = (arc: StoryArc, slotId: string | undefined) =>
+    arcSlots(arc).find(s => s.id === slotId);
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BeatSource, DialogueLine, LocationPoint, RecallStory, StoryBeat } from "../types";
+import { sourcesStillSupporting } from "./grounding";
+import { NARRATOR_SPEAKER } from "./cutPacks";
+
+/**
+ * Pure edits over a story. Each returns a new story with beats renumbered in order.
+ * Any edit that changes narration drops the beat's audio so only those beats are re-voiced,
+ * and drops translated tracks, whose lines would no longer match the beats. Rewritten
+ * narration is voiced by the narrator alone; its dialogue lines no longer apply.
+ */
+
+const withBeats = (story: RecallStory, beats: StoryBeat[]): RecallStory => ({
+    ...story,
+    beats: beats.map((b, i) => b.index === i ? b : { ...b, index: i })
+});
+
+const withoutTracks = (story: RecallStory): RecallStory =>
+    story.tracks ? { ...story, tracks: undefined } : story;
+
+const linesOf = (beat: StoryBeat): DialogueLine[] =>
+    beat.lines ?? [{ speaker: NARRATOR_SPEAKER, text: beat.text.trim() }];
+
+const replaceBeat = (story: RecallStory, position: number, patch: Partial<StoryBeat>): RecallStory =>
+    withBeats(story, story.beats.map((b, i) => i === position ? { ...b, ...patch } : b));
+
+export function updateBeatText(story: RecallStory, position: number, text: string): RecallStory {
+    const beat = story.beats[position];
+    if (!beat || beat.text === text) return story;
+    return replaceBeat(withoutTracks(story), position, { text, sources: sourcesStillSupporting(beat.sources, text), lines: undefined, audioBuffer: null });
+}
+
+export function moveBeat(story: RecallStory, from: number, to: number): RecallStory {
+    if (from === to || !story.beats[from] || to < 0 || to >= story.beats.length) return story;
+    const move = <T,>(items: T[]) => {
+        const moved = [...items];
+        moved.splice(to, 0, ...moved.splice(from, 1));
+        return moved;
+    };
+    // Reordering keeps the narration, so translated lines move with their beats.
+    const tracks = story.tracks?.map(t => ({ ...t, lines: move(t.lines) }));
+    return withBeats({ ...story, tracks }, move(story.beats));
+}
+
+/**
+ * Splits a beat at a character offset. Both halves keep the beat's media, place and
+ * slot plus the sources quoting their half, and both need new audio.
+ */
+export function splitBeat(story: RecallStory, position: number, offset: number): RecallStory {
+    const beat = story.beats[position];
+    if (!beat) return story;
+    const head = beat.text.slice(0, offset).trim();
+    const tail = beat.text.slice(offset).trim();
+    if (!head || !tail) return story;
+    const beats = [...story.beats];
+    beats.splice(position, 1,
+        { ...beat, text: head, sources: sourcesStillSupporting(beat.sources, head), lines: undefined, audioBuffer: null },
+        { ...beat, text: tail, sources: sourcesStillSupporting(beat.sources, tail), lines: undefined, audioBuffer: null });
+    return withBeats(withoutTracks(story), beats);
+}
+
+/**
+ * Merges a beat with the one after it. The merged beat keeps the first beat's media,
+ * place and slot (falling back to the next beat's), the dialogue of both and their sources.
+ */
+export function mergeWithNext(story: RecallStory, position: number): RecallStory {
+    const beat = story.beats[position];
+    const next = story.beats[position + 1];
+    if (!beat || !next) return story;
+    // Media and place each come whole from the beat that has them, with their offset and confidence.
+    const mediaFrom = beat.associatedMediaId ? beat : next;
+    const placeFrom = beat.location ? beat : next;
+    // A page both beats cite is listed once, with the snippets of both.
+    const sources: BeatSource[] = [];
+    for (const source of [...(beat.sources ?? []), ...(next.sources ?? [])]) {
+        const same = sources.findIndex(s => s.uri === source.uri);
+        if (same < 0) sources.push(source);
+        else sources[same] = { ...sources[same], snippets: [...new Set([...sources[same].snippets, ...source.snippets])] };
+    }
+    const beats = [...story.beats];
+    beats.splice(position, 2, {
+        ...beat,
+        text: `${beat.text.trim()} ${next.text.trim()}`,
+        sources: sources.length > 0 ? sources : undefined,
+        lines: beat.lines || next.lines ? [...linesOf(beat), ...linesOf(next)] : undefined,
+        associatedMediaId: mediaFrom.associatedMediaId,
+        mediaTime: mediaFrom.mediaTime,
+        location: placeFrom.location,
+        locationConfidence: placeFrom.locationConfidence,
+        audioBuffer: null
+    });
+    return withBeats(withoutTracks(story), beats);
+}
+
+/** Narration is unchanged, so the beat keeps its audio. */
+export function setBeatMedia(story: RecallStory, position: number, mediaId: string | undefined): RecallStory {
+    return replaceBeat(story, position, { associatedMediaId: mediaId, mediaTime: undefined });
+}
+
+/** A place the user picks (or re-picks to confirm) is taken as certain. */
+export function setBeatLocation(story: RecallStory, position: number, location: LocationPoint | undefined): RecallStory {
+    return replaceBeat(story, position, { location, locationConfidence: location ? 1 : undefined });
+}
+
+/** Positions of beats whose narration must be synthesized. */
+export function beatsNeedingAudio(story: RecallStory): number[] {
+    return story.beats.flatMap((b, i) => b.audioBuffer ? [] : [i]);
+}
+
+/**
+ * Builds a final cut from compared variants: the base variant supplies the title, arc,
+ * Cut Pack and grade, and each row takes the beat of the variant picked for it (`null`
+ * leaves the row out).
+ */
+export function composeFromVariants(variants: RecallStory[], base: number, picks: (number | null)[]): RecallStory {
+    const beats = picks.flatMap((v, row) => v === null || !variants[v]?.beats[row] ? [] : [variants[v].beats[row]]);
+    return withBeats({ ...variants[base], tracks: undefined, totalBeatsEstimate: beats.length }, beats);
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { beatCues, cueTexts, storyCues, toSrt, toWebVtt } from './subtitles';
+import { SPEECH_PACING } from './speechPacing';
+
+const balanced = SPEECH_PACING['Balanced'];
+
+describe('toWebVtt / toSrt', () => {
+  const cues = [
+    { start: 0, end: 1.25, text: 'Start.' },
+    { start: 3599.9996, end: 3725.5, text: 'An *hour* in & <out>' }
+  ];
+
+  it('writes WebVTT timestamps with a dot and rolls minutes into hours', () => {
+    expect(toWebVtt(cues)).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:01.250\nStart.\n\n' +
+      '2\n01:00:00.000 --> 01:02:05.500\nAn <i>hour</i> in &amp; &lt;out&gt;\n'
+    );
+  });
+
+  it('writes SRT timestamps with a comma', () => {
+    expect(toSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,250\nStart.\n\n' +
+      '2\n01:00:00,000 --> 01:02:05,500\nAn <i>hour</i> in & <out>\n'
+    );
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(toSrt([{ start: -0.2, end: 0.5, text: 'x' }])).toContain('00:00:00,000 --> 00:00:00,500');
+  });
+});
+
+describe('cueTexts', () => {
+  it('gives every sentence its own cue', () => {
+    expect(cueTexts('We landed at dawn. The city was *still* asleep! Nobody noticed.', 'en'))
+      .toEqual([['We landed at dawn.'], ['The city was *still* asleep!'], ['Nobody noticed.']]);
+  });
+
+  it('breaks long sentences at clauses, within the cue length', () => {
+    const sentence = 'We walked along the river for hours, past markets and temples and crowded bridges, until the lanterns came on and the whole city glowed.';
+    const [phrases] = cueTexts(sentence, 'en');
+    expect(phrases.length).toBeGreaterThan(1);
+    phrases.forEach(p => expect(p.length).toBeLessThanOrEqual(84));
+    expect(phrases.join(' ')).toBe(sentence);
+  });
+
+  it('drops emphasis that a break would leave unbalanced', () => {
+    const sentence = `It was ${'a very long and winding day, '.repeat(2)}*and then the rain, the glorious rain, came down on every single one of us*.`;
+    cueTexts(sentence, 'en')[0].forEach(p => expect((p.match(/\*/g)?.length ?? 0) % 2).toBe(0));
+  });
+});
+
+describe('beatCues', () => {
+  it('returns no cues for an empty beat or no time', () => {
+    expect(beatCues('', 3)).toEqual([]);
+    expect(beatCues('   ', 3)).toEqual([]);
+    expect(beatCues('Hello there.', 0)).toEqual([]);
+  });
+
+  it('leaves the sentence pause between sentences and the beat pause at the end', () => {
+    const [first, second] = beatCues('One two three. Four five six.', 5);
+    expect(first.start).toBe(0);
+    expect(second.start - first.end).toBeCloseTo(balanced.sentencePause, 6);
+    expect(second.end).toBeCloseTo(5 - balanced.beatPause, 6);
+    // Equal-length sentences share the speaking time equally.
+    expect(first.end - first.start).toBeCloseTo(second.end - second.start, 6);
+  });
+
+  it('runs clause cues of one sentence back to back', () => {
+    const sentence = 'We walked along the river for hours, past markets and temples and crowded bridges, until the lanterns came on and the whole city glowed.';
+    const cues = beatCues(sentence, 10);
+    for (let i = 1; i < cues.length; i++) expect(cues[i].start).toBeCloseTo(cues[i - 1].end, 6);
+  });
+
+  it('moves cue changes onto the pauses heard in the audio', () => {
+    const sampleRate = 8000;
+    const samples = new Float32Array(sampleRate * 4);
+    // Speech from 0.3-1.5 s and 2.5-3.6 s, so the heard pause is later than the text suggests.
+    for (const [from, to] of [[0.3, 1.5], [2.5, 3.6]]) {
+      for (let i = from * sampleRate; i < to * sampleRate; i++) samples[i] = 0.5 * Math.sin(i);
+    }
+    const [first, second] = beatCues('Short one. A much longer second sentence.', 4, {}, { samples, sampleRate });
+    expect(first.start).toBeCloseTo(0.3, 1);
+    expect(first.end).toBeCloseTo(1.5, 1);
+    expect(second.start).toBeCloseTo(2.5, 1);
+    expect(second.end).toBeCloseTo(3.6, 1);
+  });
+});
+
+describe('storyCues', () => {
+  it('offsets each beat by the ones before it, including empty beats', () => {
+    const cues = storyCues([{ text: 'First beat.' }, { text: '' }, { text: 'Last beat.' }]);
+    expect(cues.map(c => c.text)).toEqual(['First beat.', 'Last beat.']);
+    // Without audio, each beat lasts its estimated reading time plus the beat pause.
+    const first = 'First beat.'.length / 15 + balanced.beatPause;
+    const empty = balanced.beatPause;
+    expect(cues[1].start).toBeCloseTo(first + empty, 6);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PaceLevel } from "../types";
+import { detectSilences } from "./audioUtils";
+import { DEFAULT_LANGUAGE } from "./languages";
+import { SPEECH_PACING, emphasisParts, splitSentences, stripEmphasis } from "./speechPacing";
+
+export interface SubtitleCue {
+    /** Seconds from the start of the beat, or of the film for a whole story. */
+    start: number;
+    end: number;
+    /** May contain *emphasis* markers. */
+    text: string;
+}
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+export interface CueTiming {
+    /** Language of the cue text, for sentence breaking. */
+    language?: string;
+    /** Pace the narration was voiced at; sets the pauses the cues leave out. */
+    pace?: PaceLevel;
+}
+
+/** Longest cue: about two lines of 42 characters. */
+const MAX_CUE_CHARS = 84;
+/** Speaking rate assumed for beats that have no audio yet. */
+const CHARS_PER_SECOND = 15;
+/** How far a detected pause may be from the estimated cue change to be used for it. */
+const SNAP_TOLERANCE = 1;
+
+// Greedily joins pieces of text into cues no longer than MAX_CUE_CHARS.
+const pack = (pieces: string[]): string[] => {
+    const cues: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current.trim() && (current + piece).trim().length > MAX_CUE_CHARS) {
+            cues.push(current);
+            current = '';
+        }
+        current += piece;
+    }
+    if (current.trim()) cues.push(current);
+    return cues.map(c => c.trim());
+};
+
+const words = (text: string): string[] =>
+    (text.match(/\S+\s*/g) ?? []).flatMap(w => w.length <= MAX_CUE_CHARS ? [w] :
+        Array.from({ length: Math.ceil(w.length / MAX_CUE_CHARS) }, (_, i) => w.slice(i * MAX_CUE_CHARS, (i + 1) * MAX_CUE_CHARS)));
+
+// A marker cut in half by a break would show its asterisk; such cues lose their emphasis.
+const balanced = (text: string) => (text.match(/\*/g)?.length ?? 0) % 2 === 1 ? text.replace(/\*/g, '') : text;
+
+/**
+ * Breaks narration into cue texts: one per sentence, with long sentences broken at
+ * clause punctuation and then between words.
+ */
+export function cueTexts(text: string, language: string = DEFAULT_LANGUAGE): string[][] {
+    return splitSentences(text, language).map(sentence => {
+        if (sentence.length <= MAX_CUE_CHARS) return [sentence];
+        const clauses = sentence.match(/[^,;:—–、，]+[,;:—–、，]?\s*/g) ?? [sentence];
+        return pack(clauses.flatMap(c => c.trim().length > MAX_CUE_CHARS ? words(c) : [c])).map(balanced);
+    });
+}
+
+/**
+ * Times cues for one beat's narration. Time is shared by character count, leaving the
+ * pace's pauses between sentences and at the end of the beat. With the beat's samples,
+ * cue changes are aligned to the pauses actually heard, and leading and trailing
+ * silence is left out.
+ */
+export function beatCues(
+    text: string,
+    duration: number,
+    { language = DEFAULT_LANGUAGE, pace = 'Balanced' }: CueTiming = {},
+    audio?: { samples: Float32Array; sampleRate: number }
+): SubtitleCue[] {
+    const pacing = SPEECH_PACING[pace];
+    const sentences = cueTexts(text, language);
+    const cues = sentences.flatMap((phrases, s) => phrases.map((phrase, p) => ({
+        text: phrase,
+        weight: Math.max(1, stripEmphasis(phrase).length),
+        // The pause heard after this cue, if it ends a sentence.
+        pauseAfter: p === phrases.length - 1 && s < sentences.length - 1 ? pacing.sentencePause : 0
+    })));
+    if (cues.length === 0 || duration <= 0) return [];
+
+    let speechStart = 0;
+    let speechEnd = duration - pacing.beatPause > duration / 2 ? duration - pacing.beatPause : duration;
+    let gaps: [number, number][] = [];
+    if (audio) {
+        const silences = detectSilences(audio.samples, audio.sampleRate);
+        if (silences[0]?.[0] === 0) speechStart = silences.shift()![1];
+        const last = silences[silences.length - 1];
+        if (last && last[1] >= duration - 0.05) speechEnd = silences.pop()![0];
+        gaps = silences;
+    }
+
+    // Spreads cues [from, to) over a time span, proportionally to their length.
+    const times = cues.map(() => ({ start: 0, end: 0 }));
+    const layout = (from: number, to: number, start: number, end: number) => {
+        const pauses = cues.slice(from, to - 1).reduce((sum, c) => sum + c.pauseAfter, 0);
+        const weight = cues.slice(from, to).reduce((sum, c) => sum + c.weight, 0);
+        const scale = Math.max(0, end - start - pauses) / weight;
+        let t = start;
+        for (let i = from; i < to; i++) {
+            times[i] = { start: t, end: t + cues[i].weight * scale };
+            t = times[i].end + (i < to - 1 ? cues[i].pauseAfter : 0);
+        }
+    };
+    layout(0, cues.length, speechStart, speechEnd);
+
+    // Pins each cue change to the nearest unused pause within reach, in order, then re-spreads between pins.
+    const pins: { after: number; gap: [number, number] }[] = [];
+    let nextGap = 0;
+    for (let i = 0; i < cues.length - 1 && nextGap < gaps.length; i++) {
+        const change = (times[i].end + times[i + 1].start) / 2;
+        let best = -1;
+        for (let g = nextGap; g < gaps.length; g++) {
+            const distance = Math.abs((gaps[g][0] + gaps[g][1]) / 2 - change);
+            if (distance <= SNAP_TOLERANCE && (best < 0 || distance < Math.abs((gaps[best][0] + gaps[best][1]) / 2 - change))) best = g;
+        }
+        if (best >= 0) {
+            pins.push({ after: i, gap: gaps[best] });
+            nextGap = best + 1;
+        }
+    }
+    let from = 0;
+    let start = speechStart;
+    for (const pin of pins) {
+        layout(from, pin.after + 1, start, pin.gap[0]);
+        from = pin.after + 1;
+        start = pin.gap[1];
+    }
+    layout(from, cues.length, start, speechEnd);
+
+    return cues.map((c, i) => ({ text: c.text, start: times[i].start, end: times[i].end }));
+}
+
+/**
+ * Cues for a whole film, with beats played back to back. Beats without audio are timed
+ * from an estimate of how long their narration takes. `align` should be off when the
+ * text is in another language than the audio, whose pauses would not match its sentences.
+ */
+export function storyCues(beats: { text: string; audio?: AudioBuffer | null }[], timing: CueTiming = {}, align = true): SubtitleCue[] {
+    const beatPause = SPEECH_PACING[timing.pace ?? 'Balanced'].beatPause;
+    let offset = 0;
+    return beats.flatMap(({ text, audio }) => {
+        const duration = audio?.duration ?? stripEmphasis(text).length / CHARS_PER_SECOND + beatPause;
+        const cues = beatCues(text, duration, timing, audio && align ? { samples: audio.getChannelData(0), sampleRate: audio.sampleRate } : undefined)
+            .map(c => ({ ...c, start: c.start + offset, end: c.end + offset }));
+        offset += duration;
+        return cues;
+    });
+}
+
+const timestamp = (seconds: number, separator: '.' | ',') => {
+    const ms = Math.round(Math.max(0, seconds) * 1000);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Emphasis becomes italics in both formats.
+const markup = (text: string, escape: (s: string) => string) =>
+    emphasisParts(text).map(p => p.emphasis ? `<i>${escape(p.text)}</i>` : escape(p.text)).join('');
+
+const escapeVtt = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toWebVtt = (cues: SubtitleCue[]): string =>
+    ['WEBVTT', ...cues.map((c, i) => `${i + 1}\n${timestamp(c.start, '.')} --> ${timestamp(c.end, '.')}\n${markup(c.text, escapeVtt)}`)].join('\n\n') + '\n';
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+    cues.map((c, i) => `${i + 1}\n${timestamp(c.start, ',')} --> ${timestamp(c.end, ',')}\n${markup(c.text, s => s)}`).join('\n\n') + '\n';
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { arrayBufferToBase64, floatToPcm16, pcmToWav } from "./audioUtils";
+
+export interface VideoKeyframe {
+    /** Position inside the clip, in seconds. */
+    time: number;
+    /** JPEG data URL. */
+    base64: string;
+}
+
+export interface VideoDigest {
+    duration: number;
+    keyframes: VideoKeyframe[];
+    /** Mono 16kHz WAV, Base64 encoded (no data URL prefix). */
+    audioSnippet?: string;
+}
+
+const CANDIDATE_FRAMES = 10;
+const MAX_KEYFRAMES = 4;
+const FRAME_MAX_EDGE = 768;
+const SIGNATURE_EDGE = 16;
+// Mean absolute luma difference (0-255) below which two frames count as the same shot.
+const SCENE_CHANGE_THRESHOLD = 12;
+const AUDIO_SNIPPET_SECONDS = 8;
+const AUDIO_SAMPLE_RATE = 16000;
+// Decoding audio requires the whole file in memory; skip it for very large clips.
+const AUDIO_MAX_BYTES = 64 * 1024 * 1024;
+
+// A clip that has not loaded or finished a seek by then is treated as undecodable.
+const LOAD_TIMEOUT_MS = 15000;
+const SEEK_TIMEOUT_MS = 10000;
+
+const releaseVideo = (video: HTMLVideoElement) => {
+    video.onloadeddata = video.onseeked = video.onerror = null;
+    video.removeAttribute('src');
+    video.load();
+};
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> => new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+    const fail = (message: string) => {
+        clearTimeout(timer);
+        releaseVideo(video);
+        reject(new Error(message));
+    };
+    const timer = setTimeout(() => fail(`Video did not load within ${LOAD_TIMEOUT_MS / 1000}s: ${url}`), LOAD_TIMEOUT_MS);
+    video.onloadeddata = () => {
+        clearTimeout(timer);
+        video.onloadeddata = video.onerror = null;
+        resolve(video);
+    };
+    video.onerror = () => fail(`Video could not be decoded: ${url}`);
+    video.src = url;
+});
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+        clearTimeout(timer);
+        video.onseeked = video.onerror = null;
+        if (error) reject(error);
+        else resolve();
+    };
+    const timer = setTimeout(() => settle(new Error(`Video stalled seeking to ${time.toFixed(1)}s`)), SEEK_TIMEOUT_MS);
+    video.onseeked = () => settle();
+    video.onerror = () => settle(new Error(`Video could not be decoded at ${time.toFixed(1)}s`));
+    video.currentTime = time;
+});
+
+const lumaSignature = (source: CanvasImageSource): Uint8ClampedArray => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = SIGNATURE_EDGE;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(source, 0, 0, SIGNATURE_EDGE, SIGNATURE_EDGE);
+    const rgba = ctx.getImageData(0, 0, SIGNATURE_EDGE, SIGNATURE_EDGE).data;
+    const luma = new Uint8ClampedArray(SIGNATURE_EDGE * SIGNATURE_EDGE);
+    for (let i = 0; i < luma.length; i++) {
+        luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    }
+    return luma;
+};
+
+const signatureDistance = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+    return sum / a.length;
+};
+
+/**
+ * Samples a clip at evenly spaced points and keeps up to `maxFrames` frames that
+ * differ visibly from the previously kept one, so static shots collapse to one frame.
+ */
+export const extractKeyframes = async (url: string, maxFrames: number = MAX_KEYFRAMES): Promise<{ duration: number; keyframes: VideoKeyframe[] }> => {
+    const video = await loadVideo(url);
+    const duration = isFinite(video.duration) ? video.duration : 0;
+    const scale = Math.min(1, FRAME_MAX_EDGE / Math.max(video.videoWidth, video.videoHeight, 1));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d')!;
+
+    const candidates: { time: number; signature: Uint8ClampedArray; base64: string }[] = [];
+    const samples = duration > 0 ? CANDIDATE_FRAMES : 1;
+    try {
+        for (let i = 0; i < samples; i++) {
+            const time = duration * (i + 0.5) / samples;
+            await seekTo(video, time);
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            candidates.push({ time, signature: lumaSignature(canvas), base64: canvas.toDataURL('image/jpeg', 0.8) });
+        }
+    } finally {
+        releaseVideo(video);
+    }
+
+    const distinct = candidates.filter((c, i) =>
+        i === 0 || signatureDistance(c.signature, candidates[i - 1].signature) >= SCENE_CHANGE_THRESHOLD
+    );
+    // Spread the surviving frames across the clip rather than favouring its opening.
+    const stride = Math.max(1, distinct.length / maxFrames);
+    const keyframes: VideoKeyframe[] = [];
+    for (let i = 0; i < distinct.length && keyframes.length < maxFrames; i += stride) {
+        const c = distinct[Math.floor(i)];
+        keyframes.push({ time: Math.round(c.time * 10) / 10, base64: c.base64 });
+    }
+    return { duration, keyframes };
+};
+
+/**
+ * Grabs a single poster frame from a clip, for thumbnails and quality analysis.
+ * Rejects when the clip cannot be decoded or stalls while loading or seeking.
+ */
+export const captureVideoFrame = async (url: string, time: number = 1): Promise<HTMLCanvasElement> => {
+    const video = await loadVideo(url);
+    try {
+        const duration = isFinite(video.duration) ? video.duration : 0;
+        await seekTo(video, Math.min(time, duration / 2));
+        const scale = Math.min(1, FRAME_MAX_EDGE / Math.max(video.videoWidth, video.videoHeight, 1));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+        canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+        canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+        return canvas;
+    } finally {
+        releaseVideo(video);
+    }
+};
+
+/**
+ * Decodes a clip's soundtrack and returns a short mono WAV excerpt from its middle.
+ * Resolves to undefined for silent clips or containers the browser cannot decode.
+ */
+export const extractAudioSnippet = async (url: string, seconds: number = AUDIO_SNIPPET_SECONDS): Promise<string | undefined> => {
+    const blob = await (await fetch(url)).blob();
+    if (blob.size > AUDIO_MAX_BYTES) return undefined;
+
+    let decoded: AudioBuffer;
+    try {
+        decoded = await new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE).decodeAudioData(await blob.arrayBuffer());
+    } catch {
+        return undefined;
+    }
+
+    const length = Math.min(seconds, decoded.duration);
+    const offset = Math.max(0, (decoded.duration - length) / 2);
+    const offline = new OfflineAudioContext(1, Math.ceil(length * AUDIO_SAMPLE_RATE), AUDIO_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start(0, offset, length);
+    const rendered = await offline.startRendering();
+
+    const samples = rendered.getChannelData(0);
+    if (!samples.some(s => Math.abs(s) > 0.01)) return undefined;
+    const wav = pcmToWav(floatToPcm16(samples), AUDIO_SAMPLE_RATE);
+    return arrayBufferToBase64(await wav.arrayBuffer());
+};
+
+/**
+ * Reduces a video to representative keyframes plus an audio excerpt for multimodal prompts.
+ */
+export const digestVideo = async (url: string): Promise<VideoDigest> => {
+    const { duration, keyframes } = await extractKeyframes(url);
+    const audioSnippet = await extractAudioSnippet(url).catch(e => {
+        console.warn("Audio snippet unavailable", e);
+        return undefined;
+    });
+    return { duration, keyframes, audioSnippet };
+};
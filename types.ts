@@ -6,12 +6,55 @@
 
 export type CutPackCategory = 'Moody' | 'Bright' | 'Epic' | 'Artsy';
 
+export type VisualGrade = 'Natural' | 'Noir' | 'Technicolor' | 'Faded Film' | 'Golden Hour' | 'Teal & Orange';
+
 export interface CutPack {
     id: string;
     category: CutPackCategory;
     name: string;
     promise: string;
     description: string;
+    /** Prebuilt TTS voice name. */
+    voice: string;
+    pace: PaceLevel;
+    grade: VisualGrade;
+    /** Example narration lines that set the voice of the pack. */
+    sampleLines: string[];
+    /** Music track scored under the pack's premieres unless recast. */
+    score?: string;
+    /** User-defined (saved locally) rather than built in. */
+    custom?: boolean;
+}
+
+/** A music bed: synthesized from the built-in library or uploaded by the user. */
+export interface MusicTrack {
+    id: string;
+    name: string;
+    mood?: string;
+    /** Stored in the vault rather than synthesized. */
+    uploaded?: boolean;
+}
+
+/** How a score plays across beats: one continuous loop, or a crossfade to a new section at each beat. */
+export type ScoreMode = 'loop' | 'crossfade';
+
+/** The music bed under a Cut Pack's premieres; no track plays narration alone. */
+export interface PackScore {
+    trackId: string | null;
+    mode: ScoreMode;
+}
+
+/** One beat position in an arc template. */
+export interface ArcSlot {
+    /** Unique within the arc; recorded on the beat that fills it. */
+    id: string;
+    role: string;
+    guidance: string;
+}
+
+export interface ArcAct {
+    name: string;
+    slots: ArcSlot[];
 }
 
 export interface StoryArc {
@@ -19,10 +62,13 @@ export interface StoryArc {
     name: string;
     structure: string;
     bestFor: string;
+    /** Beat template, in story order. The arc's target beat count is its slot count. */
+    acts: ArcAct[];
 }
 
 export type PaceLevel = 'Slow Burn' | 'Balanced' | 'Hypercut';
 export type FocusTarget = 'People' | 'Places' | 'Food' | 'Motion' | 'Details' | 'Vistas';
+export const FOCUS_TARGETS: FocusTarget[] = ['People', 'Places', 'Food', 'Motion', 'Details', 'Vistas'];
 export type EndingStyle = 'Mic Drop' | 'Soft Landing' | 'Cliffhanger';
 
 export interface LocationPoint {
@@ -30,32 +76,138 @@ export interface LocationPoint {
     lat: number;
     lng: number;
     description?: string;
+    /** Other names for the stop (local spellings, landmarks within it) used to match beats to it. */
+    aliases?: string[];
 }
 
+export interface MediaAnalysis {
+    width: number;
+    height: number;
+    /** 0-1, variance of the Laplacian. */
+    sharpness: number;
+    /** 0-1, penalises dark, blown-out or clipped frames. */
+    exposure: number;
+    /** 64-bit perceptual difference hash, hex encoded. */
+    hash: string;
+}
+
+export type MediaProviderId = 'upload' | 'google-photos' | 'local-folder' | 'fixtures' | 'ai';
+
+/** Where a fragment was imported from. */
+export interface MediaSourceRef {
+    provider: MediaProviderId;
+    albumId?: string;
+    albumTitle?: string;
+}
+
+export type MediaCuration = 'pinned' | 'excluded';
+
+/**
+ * Vault fragment metadata. The bytes (original, thumbnail, analysis rendition) live in
+ * the IndexedDB media store under the same id.
+ */
 export interface MediaItem {
     id: string;
-    url: string;
     mimeType: string;
+    /** One-line caption, from the vision pass or typed in the vault. */
     description?: string;
+    /** What the fragment shows, in the Key Focus vocabulary. */
+    tags?: FocusTarget[];
+    /** Set once the user edits the caption or tags, so later vision passes leave them alone. */
+    captionEdited?: boolean;
     location?: LocationPoint;
     timestamp: string;
-    base64?: string;
-    source?: 'upload' | 'cloud' | 'ai';
+    /** Camera time before the user corrected the clock on the timeline. */
+    originalTimestamp?: string;
+    source?: MediaSourceRef;
+    analysis?: MediaAnalysis;
+    curation?: MediaCuration;
+    /** Burst/duplicate group. Equals the id of the stack's hero frame. */
+    stackId?: string;
+    /** Set on a stack's hero when the user chose it, so later imports into the stack keep it. */
+    heroPicked?: boolean;
+}
+
+/** A character voiced alongside the narrator, e.g. a travel companion whose words are quoted. */
+export interface CastMember {
+    name: string;
+    /** Prebuilt TTS voice name. */
+    voice: string;
+    /** Who they are, so the writer knows when to give them a line. */
+    role?: string;
+}
+
+/** Part of a beat spoken by one voice: the narrator or a cast member, by name. */
+export interface DialogueLine {
+    speaker: string;
+    text: string;
+}
+
+/** A web page the narration of a beat was grounded on. */
+export interface BeatSource {
+    uri: string;
+    title?: string;
+    /** Narration the source supports, quoted from the beat. */
+    snippets: string[];
 }
 
 export interface StoryBeat {
     index: number;
     text: string;
     associatedMediaId?: string;
+    /** Seconds into the associated clip this beat refers to (video fragments only). */
+    mediaTime?: number;
     location?: LocationPoint;
+    /** 0-1 confidence that `location` is right; 1 once the user confirms or picks it. */
+    locationConfidence?: number;
+    /** Arc template slot this beat fills (see `StoryArc.acts`). */
+    slotId?: string;
+    /** Search results backing the facts in `text`. */
+    sources?: BeatSource[];
+    /** `text` split by speaker, in order, when the beat quotes a cast member. */
+    lines?: DialogueLine[];
     audioBuffer: AudioBuffer | null;
 }
 
+/** A translated narration, line for line with the story's beats. */
+export interface NarrationTrack {
+    /** BCP-47 code (see `NARRATION_LANGUAGES`). */
+    language: string;
+    title: string;
+    lines: { text: string; audioBuffer: AudioBuffer | null }[];
+}
+
 export interface RecallStory {
     title: string;
+    /** Language `title` and the beats are written and voiced in. */
+    language?: string;
+    /** Further languages the story has been translated into. */
+    tracks?: NarrationTrack[];
+    /** Visual grade of the Cut Pack the story was cut with. */
+    grade?: VisualGrade;
+    /** Beats expected in total; more than `beats.length` while the story is still streaming. */
+    totalBeatsEstimate?: number;
+    /** Arc template the beats were written against. */
+    arcId?: string;
+    /** Cut Pack the story was written (and is narrated) with. */
+    cutPackId?: string;
+    /** Characters whose quoted lines are voiced separately from the narrator. */
+    cast?: CastMember[];
+    /** Pace the story was written at; it also times the narration. */
+    pace?: PaceLevel;
     beats: StoryBeat[];
 }
 
+/** One take in a side-by-side comparison of alternative cuts. */
+export interface StoryVariant {
+    /** Cut Pack and arc, for the column heading. */
+    label: string;
+    /** Beats fill in while the take is being written. */
+    story: RecallStory;
+    status: 'writing' | 'done' | 'failed';
+    error?: string;
+}
+
 export enum AppState {
     IMPORTING,
     ROUTE_CONFIRMED,
@@ -63,7 +215,8 @@ export enum AppState {
     ANALYZING,
     PREMIERE,
     PLAYBACK,
-    GENERATING_ASSET
+    GENERATING_ASSET,
+    COMPARING
 }
 
 export type ImageAspectRatio = "1:1" | "2:3" | "3:2" | "3:4" | "4:3" | "9:16" | "16:9" | "21:9";
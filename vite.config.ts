@@ -42,6 +42,8 @@ export default defineConfig(({ mode }) => {
         // Correctly inject the string value. 
         // If apiKey is undefined, it sets it to undefined (or empty string if preferred, but undefined is safer to detect)
         'process.env.API_KEY': apiKey ? JSON.stringify(apiKey) : 'undefined',
+        // OAuth client for the Google Photos source; the provider is hidden when unset.
+        'process.env.GOOGLE_CLIENT_ID': JSON.stringify(process.env.GOOGLE_CLIENT_ID || env.GOOGLE_CLIENT_ID || ''),
       },
       resolve: {
         alias: {